@@ -52,6 +52,7 @@ shell.exec(
 shell.rm("convex/otp/FakePhone.ts");
 shell.rm("convex/*.test.ts");
 shell.rm("convex/test.helpers.ts");
+shell.rm("convex/test.config.ts");
 
 // Initialize a new git repo
 shell.exec("git init");
@@ -1,15 +1,22 @@
-import { exportJWK, exportPKCS8, generateKeyPair } from "jose";
+import {
+  JWK,
+  calculateJwkThumbprint,
+  exportJWK,
+  exportPKCS8,
+  generateKeyPair,
+} from "jose";
+import type { JwtAlgorithm } from "../server/types.js";
 
-export async function generateKeys() {
+// Retired keys stay in the JWKS at least this long, which is longer
+// than any reasonable JWT duration. The backend stops serving them
+// once the JWTs they signed have expired.
+const RETIRED_KEY_RETENTION_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+export async function generateKeys(algorithm: JwtAlgorithm) {
   try {
-    const keys = await generateKeyPair("RS256");
-    const privateKey = await exportPKCS8(keys.privateKey);
-    const publicKey = await exportJWK(keys.publicKey);
-    const jwks = JSON.stringify({ keys: [{ use: "sig", ...publicKey }] });
-    return {
-      JWT_PRIVATE_KEY: `${privateKey.trimEnd().replace(/\n/g, " ")}`,
-      JWKS: jwks,
-    };
+    const { privateKey, publicKey } = await generateSigningKeyPair(algorithm);
+    const jwks = JSON.stringify({ keys: [publicKey] });
+    return { JWT_PRIVATE_KEY: privateKey, JWKS: jwks };
   } catch (error) {
     console.error(
       "Could not generate private and public key, are you running this command using Node.js?\n",
@@ -18,3 +25,52 @@ export async function generateKeys() {
     process.exit(1);
   }
 }
+
+/**
+ * Generate a new signing key while keeping the existing public keys
+ * in the JWKS, marked as retired, so that JWTs signed with them
+ * stay valid until they expire.
+ *
+ * The new key can use a different algorithm than the existing ones.
+ */
+export async function rotateKeys(
+  existingJwks: string,
+  algorithm: JwtAlgorithm,
+) {
+  try {
+    const { privateKey, publicKey } = await generateSigningKeyPair(algorithm);
+    const now = Date.now();
+    const existingKeys = (
+      JSON.parse(existingJwks) as { keys: (JWK & { retiredAt?: number })[] }
+    ).keys;
+    const retiredKeys = existingKeys
+      .filter(
+        ({ retiredAt }) =>
+          retiredAt === undefined || retiredAt + RETIRED_KEY_RETENTION_MS > now,
+      )
+      .map((key) => ({ ...key, retiredAt: key.retiredAt ?? now }));
+    const jwks = JSON.stringify({ keys: [publicKey, ...retiredKeys] });
+    return { JWT_PRIVATE_KEY: privateKey, JWKS: jwks };
+  } catch (error) {
+    console.error(
+      "Could not rotate private and public key, is the existing JWKS valid JSON?\n",
+      error,
+    );
+    process.exit(1);
+  }
+}
+
+async function generateSigningKeyPair(algorithm: JwtAlgorithm) {
+  const keys = await generateKeyPair(algorithm);
+  const privateKey = await exportPKCS8(keys.privateKey);
+  const publicKey = await exportJWK(keys.publicKey);
+  return {
+    privateKey: `${privateKey.trimEnd().replace(/\n/g, " ")}`,
+    publicKey: {
+      use: "sig",
+      alg: algorithm,
+      ...publicKey,
+      kid: await calculateJwkThumbprint(publicKey),
+    },
+  };
+}
@@ -0,0 +1,278 @@
+import * as v from "valibot";
+
+export type ImportFormat = "json" | "csv";
+
+const ImportedUserSchema = v.object({
+  email: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  name: v.optional(v.string()),
+  image: v.optional(v.string()),
+  emailVerified: v.optional(v.boolean()),
+  phoneVerified: v.optional(v.boolean()),
+  passwordHash: v.optional(v.string()),
+  // Maps OAuth provider IDs (like "github") to the user's ID
+  // with that provider
+  oauth: v.optional(v.record(v.string(), v.string())),
+});
+
+export type ImportedUser = v.InferOutput<typeof ImportedUserSchema>;
+
+/**
+ * The arguments of the `importUsers` type of the `auth:store` mutation.
+ */
+export type StoreUser = {
+  name?: string;
+  image?: string;
+  email?: string;
+  emailVerificationTime?: number;
+  phone?: string;
+  phoneVerificationTime?: number;
+  accounts: {
+    provider: string;
+    providerAccountId: string;
+    secret?: string;
+    emailVerified?: string;
+  }[];
+};
+
+export type ImportConflict = {
+  // 1-based position of the user in the input file
+  row: number;
+  email?: string;
+  phone?: string;
+  reason:
+    | "InvalidRow"
+    | "MissingEmail"
+    | "UnsupportedPasswordHash"
+    | "DuplicateEmail"
+    | "DuplicatePhone"
+    | "DuplicateAccount"
+    | "EmailInUse"
+    | "PhoneInUse"
+    | "AccountInUse";
+  details?: string;
+};
+
+/**
+ * Parse a JSON array or a CSV file with a header row.
+ *
+ * CSV columns are named like the JSON fields, OAuth accounts
+ * use one `oauth:<provider>` column per provider.
+ */
+export function parseUsersFile(
+  content: string,
+  format: ImportFormat,
+): unknown[] {
+  if (format === "json") {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Expected a JSON array of users");
+    }
+    return parsed;
+  }
+  const [header, ...rows] = parseCsv(content);
+  if (header === undefined) {
+    return [];
+  }
+  return rows.map((row) => {
+    const user: Record<string, unknown> = {};
+    const oauth: Record<string, string> = {};
+    header.forEach((column, i) => {
+      const value = row[i] ?? "";
+      if (value === "") {
+        return;
+      }
+      if (column.startsWith("oauth:")) {
+        oauth[column.slice("oauth:".length)] = value;
+      } else if (column === "emailVerified" || column === "phoneVerified") {
+        user[column] = /^(true|1|yes)$/i.test(value);
+      } else {
+        user[column] = value;
+      }
+    });
+    if (Object.keys(oauth).length > 0) {
+      user.oauth = oauth;
+    }
+    return user;
+  });
+}
+
+// RFC 4180: fields separated by commas, optionally quoted,
+// with quotes escaped by doubling them.
+function parseCsv(content: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      field = "";
+      if (row.some((value) => value !== "")) {
+        rows.push(row);
+      }
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value !== "")) {
+    rows.push(row);
+  }
+  return rows.map((row) => row.map((value) => value.trim()));
+}
+
+/**
+ * Validate the parsed users and convert them to `users` and
+ * `authAccounts` documents.
+ *
+ * Invalid users and users with an email, phone or OAuth account
+ * which already appeared earlier in the file are reported as conflicts.
+ */
+export function prepareImport(
+  users: unknown[],
+  options: { passwordProvider: string },
+) {
+  const rows: { row: number; user: StoreUser }[] = [];
+  const conflicts: ImportConflict[] = [];
+  const seenEmails = new Set<string>();
+  const seenPhones = new Set<string>();
+  // `<provider>:<providerAccountId>` of the OAuth accounts
+  const seenAccounts = new Set<string>();
+  const now = Date.now();
+  users.forEach((input, i) => {
+    const row = i + 1;
+    const result = v.safeParse(ImportedUserSchema, input);
+    if (!result.success) {
+      conflicts.push({
+        row,
+        reason: "InvalidRow",
+        details: result.issues.map((issue) => issue.message).join(", "),
+      });
+      return;
+    }
+    const user = result.output;
+    const { email, phone, passwordHash } = user;
+    const conflict = { row, email, phone };
+    if (passwordHash !== undefined && email === undefined) {
+      conflicts.push({ ...conflict, reason: "MissingEmail" });
+      return;
+    }
+    if (
+      passwordHash !== undefined &&
+      passwordHashAlgorithm(passwordHash) === null
+    ) {
+      conflicts.push({
+        ...conflict,
+        reason: "UnsupportedPasswordHash",
+        details: "Expected a bcrypt, scrypt or argon2 hash",
+      });
+      return;
+    }
+    if (email !== undefined && seenEmails.has(email)) {
+      conflicts.push({ ...conflict, reason: "DuplicateEmail" });
+      return;
+    }
+    if (phone !== undefined && seenPhones.has(phone)) {
+      conflicts.push({ ...conflict, reason: "DuplicatePhone" });
+      return;
+    }
+    const accounts = Object.entries(user.oauth ?? {}).map(
+      ([provider, providerAccountId]) => `${provider}:${providerAccountId}`,
+    );
+    const duplicateAccount = accounts.find((account) =>
+      seenAccounts.has(account),
+    );
+    if (duplicateAccount !== undefined) {
+      conflicts.push({
+        ...conflict,
+        reason: "DuplicateAccount",
+        details: duplicateAccount,
+      });
+      return;
+    }
+    accounts.forEach((account) => seenAccounts.add(account));
+    if (email !== undefined) {
+      seenEmails.add(email);
+    }
+    if (phone !== undefined) {
+      seenPhones.add(phone);
+    }
+    rows.push({ row, user: toStoreUser(user, options, now) });
+  });
+  return { rows, conflicts };
+}
+
+function toStoreUser(
+  user: ImportedUser,
+  options: { passwordProvider: string },
+  now: number,
+): StoreUser {
+  const { email, phone, name, image, emailVerified, phoneVerified } = user;
+  const accounts: StoreUser["accounts"] = [];
+  if (user.passwordHash !== undefined) {
+    accounts.push({
+      provider: options.passwordProvider,
+      providerAccountId: email!,
+      secret: user.passwordHash,
+      ...(emailVerified ? { emailVerified: email } : {}),
+    });
+  }
+  for (const [provider, providerAccountId] of Object.entries(
+    user.oauth ?? {},
+  )) {
+    accounts.push({ provider, providerAccountId });
+  }
+  return {
+    ...(name !== undefined ? { name } : {}),
+    ...(image !== undefined ? { image } : {}),
+    ...(email !== undefined ? { email } : {}),
+    ...(email !== undefined && emailVerified
+      ? { emailVerificationTime: now }
+      : {}),
+    ...(phone !== undefined ? { phone } : {}),
+    ...(phone !== undefined && phoneVerified
+      ? { phoneVerificationTime: now }
+      : {}),
+    accounts,
+  };
+}
+
+/**
+ * Recognize the password hash formats the import supports.
+ * The hashes are stored as is, and can be verified via
+ * `crypto.verifiers` of the `Password` provider.
+ */
+export function passwordHashAlgorithm(hash: string) {
+  if (/^\$2[abxy]?\$\d{2}\$[./A-Za-z0-9]{53}$/.test(hash)) {
+    return "bcrypt";
+  }
+  if (/^\$argon2(id|i|d)\$/.test(hash)) {
+    return "argon2";
+  }
+  // Modular crypt format or the `salt:key` format of the default
+  // `Password` hashing
+  if (/^\$scrypt\$/.test(hash) || /^[0-9a-f]+:[0-9a-f]+$/.test(hash)) {
+    return "scrypt";
+  }
+  return null;
+}
@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
-import { Command } from "@commander-js/extra-typings";
+import {
+  Command,
+  InvalidArgumentError,
+  Option,
+} from "@commander-js/extra-typings";
 import chalk from "chalk";
 import { execSync } from "child_process";
 import { config as loadEnvFile } from "dotenv";
@@ -9,9 +13,17 @@ import inquirer from "inquirer";
 import path from "path";
 import * as v from "valibot";
 import { actionDescription } from "./command.js";
-import { generateKeys } from "./generateKeys.js";
-
-new Command()
+import { generateKeys, rotateKeys } from "./generateKeys.js";
+import {
+  ImportConflict,
+  ImportFormat,
+  StoreUser,
+  parseUsersFile,
+  prepareImport,
+} from "./importUsers.js";
+import type { JwtAlgorithm } from "../server/types.js";
+
+const program = new Command()
   .name("@convex-dev/auth")
   .description(
     "Add code and set environment variables for @convex-dev/auth.\n\n" +
@@ -22,6 +34,14 @@ new Command()
     "Configure additional variables for interactive configuration.",
   )
   .option("--skip-git-check", "Don't warn when running outside a Git checkout.")
+  .addOption(
+    new Option(
+      "--jwt-algorithm <algorithm>",
+      "Algorithm of the generated JWT signing key.",
+    )
+      .choices(["RS256", "ES256", "EdDSA"] as const)
+      .default("RS256" as const),
+  )
   .addDeploymentSelectionOptions(
     actionDescription("Set environment variables on"),
   )
@@ -51,6 +71,7 @@ new Command()
       usesTypeScript,
       convexFolderPath,
       deployment,
+      jwtAlgorithm: options.jwtAlgorithm,
       step: 1,
     };
 
@@ -91,8 +112,46 @@ new Command()
         "You're all set. Continue by configuring your schema and frontend.",
       );
     }
-  })
-  .parse(process.argv);
+  });
+
+program
+  .command("import-users")
+  .description(
+    "Import users exported from another auth system.\n\n" +
+      "Reads a JSON array or a CSV file of users and writes `users` and " +
+      "`authAccounts` documents, keeping existing password hashes.",
+  )
+  .argument("<file>", "JSON or CSV file with the users to import.")
+  .addOption(
+    new Option(
+      "--format <format>",
+      "Format of the file, inferred from its extension by default.",
+    ).choices(["json", "csv"] as const),
+  )
+  .option(
+    "--password-provider <id>",
+    "ID of the provider which verifies the imported password hashes.",
+    "password",
+  )
+  .option(
+    "--batch-size <size>",
+    "Number of users written per mutation.",
+    parsePositiveInteger,
+    100,
+  )
+  .option("--dry-run", "Report what would be imported without writing.")
+  .option(
+    "--report <path>",
+    "Write the skipped users to this JSON file instead of printing them.",
+  )
+  .addDeploymentSelectionOptions(actionDescription("Import users into"))
+  .action(async (file, options) => {
+    await importUsers(file, options);
+  });
+
+program.parse(process.argv);
+
+type DeploymentConfig = Pick<ProjectConfig, "deployment">;
 
 type ProjectConfig = {
   isExpo: boolean;
@@ -100,6 +159,7 @@ type ProjectConfig = {
   isVite: boolean;
   usesTypeScript: boolean;
   convexFolderPath: string;
+  jwtAlgorithm: JwtAlgorithm;
   deployment: {
     name: string | null;
     type: string | null;
@@ -179,28 +239,47 @@ async function configureEnvVar(
 
 async function configureKeys(config: ProjectConfig) {
   logStep(config, "Configure private and public key");
-  const { JWT_PRIVATE_KEY, JWKS } = await generateKeys();
   // TODO: We should just list all the 3 env vars in one command
   // to speed things up, but the convex CLI doesn't quote the
   // values correctly right now, so we can't.
   const existingPrivateKey = await backendEnvVar(config, "JWT_PRIVATE_KEY");
   const existingJwks = await backendEnvVar(config, "JWKS");
+  let keys;
   if (existingPrivateKey !== "" || existingJwks !== "") {
-    if (
-      !(await promptForConfirmation(
-        `The ${printDeployment(config)} already has JWT_PRIVATE_KEY or JWKS configured. Overwrite them?`,
-        { default: false },
-      ))
-    ) {
+    const choice = await promptForChoice(
+      `The ${printDeployment(config)} already has JWT_PRIVATE_KEY or JWKS configured. What do you want to do?`,
+      [
+        { name: "Keep them", value: "keep" },
+        {
+          name: "Rotate them (existing JWTs stay valid until they expire)",
+          value: "rotate",
+          disabled: existingJwks === "" ? "JWKS is not set" : false,
+        },
+        {
+          name: "Overwrite them (existing JWTs become invalid)",
+          value: "overwrite",
+        },
+      ],
+    );
+    if (choice === "keep") {
       return;
     }
+    keys =
+      choice === "rotate"
+        ? await rotateKeys(existingJwks, config.jwtAlgorithm)
+        : await generateKeys(config.jwtAlgorithm);
+  } else {
+    keys = await generateKeys(config.jwtAlgorithm);
   }
+  const { JWT_PRIVATE_KEY, JWKS } = keys;
   // TODO: We should set both env vars in one command, but the convex CLI doesn't
   // support setting multiple env vars.
+  // The public key must be published before JWTs are signed with the new
+  // private key, so set JWKS first.
+  await setEnvVar(config, "JWKS", JWKS, { hideValue: true });
   await setEnvVar(config, "JWT_PRIVATE_KEY", JWT_PRIVATE_KEY, {
     hideValue: true,
   });
-  await setEnvVar(config, "JWKS", JWKS, { hideValue: true });
 }
 
 async function backendEnvVar(config: ProjectConfig, name: string) {
@@ -234,7 +313,7 @@ async function setEnvVar(
   }
 }
 
-function deploymentOptions(config: ProjectConfig) {
+function deploymentOptions(config: DeploymentConfig) {
   const {
     deployment: {
       options: { adminKey },
@@ -245,7 +324,7 @@ function deploymentOptions(config: ProjectConfig) {
   return adminKeyOption + deploymentNameOptions(config);
 }
 
-function deploymentNameOptions(config: ProjectConfig) {
+function deploymentNameOptions(config: DeploymentConfig) {
   const {
     deployment: {
       options: { url, prod, previewName, deploymentName },
@@ -264,7 +343,7 @@ function deploymentNameOptions(config: ProjectConfig) {
   }
 }
 
-function printDeployment(config: ProjectConfig) {
+function printDeployment(config: DeploymentConfig) {
   const { name, type } = config.deployment;
   return (
     (type !== null ? `${chalk.bold(type)} ` : "") +
@@ -533,6 +612,109 @@ async function configureOtherVariables(config: ProjectConfig, json: string) {
   }
 }
 
+async function importUsers(
+  file: string,
+  options: {
+    format?: ImportFormat;
+    passwordProvider: string;
+    batchSize: number;
+    dryRun?: true;
+    report?: string;
+    url?: string;
+    adminKey?: string;
+    prod?: boolean;
+    previewName?: string;
+    deploymentName?: string;
+  },
+) {
+  const config = { deployment: readConvexDeployment(options) };
+  const format =
+    options.format ??
+    (path.extname(file).toLowerCase() === ".csv" ? "csv" : "json");
+  let users: unknown[];
+  try {
+    users = parseUsersFile(readFileSync(file, "utf8"), format);
+  } catch (error: any) {
+    logErrorAndExit(`Could not read users from ${file}`, error.message);
+  }
+  const { rows, conflicts } = prepareImport(users, {
+    passwordProvider: options.passwordProvider,
+  });
+  const dryRun = options.dryRun ?? false;
+  let imported = 0;
+  for (let start = 0; start < rows.length; start += options.batchSize) {
+    const batch = rows.slice(start, start + options.batchSize);
+    const result = runImportUsersMutation(config, {
+      users: batch.map(({ user }) => user),
+      dryRun,
+    });
+    imported += result.imported;
+    for (const { index, reason } of result.conflicts) {
+      const { row, user } = batch[index];
+      conflicts.push({ row, email: user.email, phone: user.phone, reason });
+    }
+    logInfo(
+      `Processed ${Math.min(start + options.batchSize, rows.length)} of ${rows.length} users`,
+    );
+  }
+  conflicts.sort((a, b) => a.row - b.row);
+  if (options.report !== undefined) {
+    writeFileSync(options.report, JSON.stringify(conflicts, null, 2) + "\n");
+  } else {
+    for (const { row, email, phone, reason, details } of conflicts) {
+      logWarning(
+        `Row ${row}${email !== undefined ? ` (${email})` : phone !== undefined ? ` (${phone})` : ""}: ` +
+          reason +
+          (details !== undefined ? ` - ${details}` : ""),
+      );
+    }
+  }
+  logSuccess(
+    `${dryRun ? "Would import" : "Imported"} ${chalk.bold(imported)} users ` +
+      `into ${printDeployment(config)}`,
+  );
+  if (conflicts.length > 0) {
+    logWarning(
+      `Skipped ${chalk.bold(conflicts.length)} users` +
+        (options.report !== undefined
+          ? `, see ${chalk.bold(options.report)}`
+          : ""),
+    );
+  }
+}
+
+function runImportUsersMutation(
+  config: DeploymentConfig,
+  args: { users: StoreUser[]; dryRun: boolean },
+): {
+  imported: number;
+  conflicts: { index: number; reason: ImportConflict["reason"] }[];
+} {
+  const argsEscaped = JSON.stringify({
+    args: { type: "importUsers", ...args },
+  }).replace(/'/g, "'\\''");
+  try {
+    const output = execSync(
+      `npx convex run ${deploymentOptions(config)} auth:store '${argsEscaped}'`,
+      { stdio: ["ignore", "pipe", "pipe"], maxBuffer: 1024 * 1024 * 64 },
+    );
+    return JSON.parse(output.toString());
+  } catch (error: any) {
+    logErrorAndExit(
+      `Could not import users into ${printDeployment(config)}`,
+      error.stderr?.toString() ?? error.message,
+    );
+  }
+}
+
+function parsePositiveInteger(value: string) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Expected a positive integer.");
+  }
+  return parsed;
+}
+
 function doesAlreadyMatchTemplate(existing: string, template: string) {
   const regex = new RegExp(
     template
@@ -756,6 +938,25 @@ async function promptForConfirmation(
   return confirmed;
 }
 
+async function promptForChoice<Value extends string>(
+  message: string,
+  choices: readonly {
+    name: string;
+    value: Value;
+    disabled?: string | false;
+  }[],
+) {
+  const { choice } = await inquirer.prompt<{ choice: Value }>([
+    {
+      type: "list",
+      name: "choice",
+      message,
+      choices,
+    },
+  ]);
+  return choice;
+}
+
 async function promptForInput(
   message: string,
   options: { default?: string; validate?: (input: string) => true | string },
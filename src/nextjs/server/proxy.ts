@@ -8,6 +8,7 @@ import {
   isCorsRequest,
   jsonResponse,
   logVerbose,
+  sessionMetadataFromRequest,
   setAuthCookies,
 } from "./utils.js";
 
@@ -40,13 +41,21 @@ export async function proxyAuthActionToConvex(
     }
     args.refreshToken = refreshToken;
   } else {
+    if (action === "auth:signIn") {
+      args.metadata = {
+        ...args.metadata,
+        ...sessionMetadataFromRequest(request),
+      };
+    }
     // Make sure the proxy is authenticated if the client is,
     // important for signOut and any other logic working
     // with existing sessions.
     token = getRequestCookies().token ?? undefined;
   }
   logVerbose(
-    `Fetching action ${action} with args ${JSON.stringify(args)}`,
+    `Fetching action ${action} with args ${JSON.stringify(args, (key, value) =>
+      key === "proxySecret" ? "[redacted]" : value,
+    )}`,
     verbose,
   );
   const untypedResult = await fetchAction(action, args, {
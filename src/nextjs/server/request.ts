@@ -3,7 +3,12 @@ import { jwtDecode } from "jwt-decode";
 import { NextRequest, NextResponse } from "next/server";
 import { SignInAction } from "../../server/implementation/index.js";
 import { getRequestCookies, getRequestCookiesInMiddleware } from "./cookies.js";
-import { isCorsRequest, logVerbose, setAuthCookies } from "./utils.js";
+import {
+  isCorsRequest,
+  logVerbose,
+  sessionMetadataFromRequest,
+  setAuthCookies,
+} from "./utils.js";
 
 export async function handleAuthenticationInRequest(
   request: NextRequest,
@@ -38,8 +43,31 @@ export async function handleAuthenticationInRequest(
     try {
       const result = await fetchAction(
         "auth:signIn" as unknown as SignInAction,
-        { params: { code }, verifier },
+        {
+          params: { code },
+          verifier,
+          metadata: sessionMetadataFromRequest(request),
+        },
       );
+      if (result.mfaRequired !== undefined) {
+        // The client completes the challenge, see `useMfaChallenge`
+        redirectUrl.searchParams.set(
+          "mfaChallenge",
+          result.mfaRequired.challenge,
+        );
+        redirectUrl.searchParams.set(
+          "mfaFactors",
+          result.mfaRequired.factors.join(","),
+        );
+        logVerbose(
+          `Second factor required, redirecting to ${redirectUrl.pathname} with the challenge`,
+          verbose,
+        );
+        return {
+          kind: "redirect",
+          response: NextResponse.redirect(redirectUrl),
+        };
+      }
       if (result.tokens === undefined) {
         throw new Error("Invalid `signIn` action result for code exchange");
       }
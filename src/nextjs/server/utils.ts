@@ -55,6 +55,27 @@ export function isCorsRequest(request: NextRequest) {
   );
 }
 
+// The client IP and user agent as seen by the Next.js server,
+// stored on sessions created during sign-in. The Convex backend
+// only trusts the IP if it's accompanied by its `AUTH_PROXY_SECRET`.
+//
+// The platform IP is preferred. Otherwise we use the last
+// `X-Forwarded-For` entry, the one appended by the proxy in front of
+// the Next.js server, since the client can send any earlier entries.
+// Hosts behind more proxies must sanitize the header themselves.
+export function sessionMetadataFromRequest(request: NextRequest) {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  const ipAddress =
+    request.ip ??
+    forwardedFor?.split(",").at(-1)?.trim() ??
+    request.headers.get("x-real-ip");
+  return {
+    userAgent: request.headers.get("user-agent") ?? undefined,
+    ipAddress: ipAddress || undefined,
+    proxySecret: process.env.AUTH_PROXY_SECRET,
+  };
+}
+
 export function logVerbose(message: string, verbose: boolean) {
   if (verbose) {
     console.debug(
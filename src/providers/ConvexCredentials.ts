@@ -59,6 +59,16 @@ export interface ConvexCredentialsUserConfig<
      */
     credentials: Partial<Record<string, Value | undefined>>,
     ctx: GenericActionCtxWithAuthConfig<DataModel>,
+    /**
+     * Set when the provider is used via `signInViaProvider`.
+     */
+    options: {
+      /**
+       * The account passed to `signInViaProvider`, usually
+       * of the user who completed the first sign-in step.
+       */
+      accountId?: GenericId<"authAccounts">;
+    },
   ) => Promise<{
     userId: GenericId<"users">;
     sessionId?: GenericId<"authSessions">;
@@ -82,6 +92,24 @@ export interface ConvexCredentialsUserConfig<
      * matches the stored hash.
      */
     verifySecret: (secret: string, hash: string) => Promise<boolean>;
+    /**
+     * Functions used to verify secrets hashed with
+     * a previous algorithm, for example when migrating
+     * bcrypt hashes from another system.
+     *
+     * They are tried in order when `verifySecret` returns `false`,
+     * and should return `false` for hashes they don't recognize.
+     * After a successful sign-in via one of these functions
+     * the secret is re-hashed with `hashSecret`.
+     */
+    verifiers?: ((secret: string, hash: string) => Promise<boolean>)[];
+    /**
+     * Return `true` if a hash verified via `verifySecret`
+     * should be replaced, for example because it was created
+     * with weaker parameters. The secret is then re-hashed
+     * with `hashSecret` after a successful sign-in.
+     */
+    needsRehash?: (hash: string) => boolean | Promise<boolean>;
   };
   /**
    * Register extra providers used in the implementation of the credentials
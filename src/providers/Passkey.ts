@@ -0,0 +1,62 @@
+/**
+ * Configure {@link Passkey} provider given a {@link PasskeyUserConfig}.
+ *
+ * The `Passkey` provider lets users sign in with passkeys (WebAuthn
+ * credentials) stored in their device, browser or password manager.
+ *
+ * ```ts
+ * import { Passkey } from "@convex-dev/auth/providers/Passkey";
+ * import { convexAuth } from "@convex-dev/auth/server";
+ *
+ * export const { auth, signIn, signOut, store } = convexAuth({
+ *   providers: [Passkey({ rpName: "My App" })],
+ * });
+ * ```
+ *
+ * On the client, use `registerPasskey` and `signInWithPasskey`
+ * from `useAuthActions`. Registering a passkey without being signed in
+ * creates a new user, signed-in users can add several passkeys
+ * to their account.
+ *
+ * The passkeys are scoped to the hostname of the `SITE_URL`
+ * environment variable, unless you set the `origin` option.
+ *
+ * @module
+ */
+
+import {
+  DocumentByName,
+  GenericDataModel,
+  WithoutSystemFields,
+} from "convex/server";
+import { Value } from "convex/values";
+import { PasskeyConfig, PasskeyUserConfig } from "../server/types.js";
+
+/**
+ * Passkey providers register and verify WebAuthn credentials.
+ *
+ * By default the `email` passed to `registerPasskey` is stored
+ * on new users, without being verified.
+ */
+export function Passkey<DataModel extends GenericDataModel>(
+  config: PasskeyUserConfig<DataModel> & Pick<PasskeyConfig, "rpName">,
+): PasskeyConfig<DataModel> {
+  return {
+    id: "passkey",
+    type: "passkey",
+    rpName: config.rpName,
+    maxAge: 60 * 5, // 5 minutes
+    userVerification: "preferred",
+    profile: defaultProfile<DataModel>,
+    options: config,
+  };
+}
+
+function defaultProfile<DataModel extends GenericDataModel>(
+  params: Record<string, Value | undefined>,
+): WithoutSystemFields<DocumentByName<DataModel, "users">> {
+  const profile: { email?: string } =
+    typeof params.email === "string" ? { email: params.email } : {};
+  // The `users` table from `authTables` has an optional `email` field
+  return profile as WithoutSystemFields<DocumentByName<DataModel, "users">>;
+}
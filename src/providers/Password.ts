@@ -10,6 +10,8 @@
  * - `"reset-verification"`: Verify a password reset code and change password.
  * - `"email-verification"`: If email verification is enabled and `code` is
  *    included in params, verify an OTP.
+ * - `"change-password"`: Change the signed-in user's password, given
+ *    the current `password` and the `newPassword`.
  *
  * ```ts
  * import Password from "@convex-dev/auth/providers/Password";
@@ -32,6 +34,8 @@ import {
   GenericActionCtxWithAuthConfig,
   GenericDoc,
   createAccount,
+  getAuthSessionId,
+  getAuthUserId,
   invalidateSessions,
   modifyAccountCredentials,
   retrieveAccount,
@@ -42,7 +46,7 @@ import {
   GenericDataModel,
   WithoutSystemFields,
 } from "convex/server";
-import { Value } from "convex/values";
+import { ConvexError, Value } from "convex/values";
 import { Scrypt } from "lucia";
 
 /**
@@ -59,7 +63,7 @@ export interface PasswordConfig<DataModel extends GenericDataModel> {
    * information stored after sign up, including email normalization.
    *
    * Called for every flow ("signUp", "signIn", "reset",
-   * "reset-verification" and "email-verification").
+   * "reset-verification", "email-verification" and "change-password").
    */
   profile?: (
     /**
@@ -89,8 +93,110 @@ export interface PasswordConfig<DataModel extends GenericDataModel> {
    * before sign up / sign in.
    */
   verify?: EmailConfig | ((...args: any) => EmailConfig);
+  /**
+   * Whether the "change-password" flow signs the user out
+   * of all their other sessions.
+   *
+   * Defaults to `false`.
+   */
+  invalidateSessionsOnChange?: boolean;
+  /**
+   * Rules new passwords must satisfy, checked in the "signUp",
+   * "reset-verification" and "change-password" flows.
+   *
+   * If the password breaks any rules, the flow fails with
+   * a `ConvexError` with {@link InvalidPasswordErrorData} data.
+   *
+   * If not specified, passwords must be at least 8 characters long,
+   * unless you provide a custom `profile` method.
+   */
+  passwordPolicy?: PasswordPolicy<DataModel>;
+}
+
+/**
+ * Declarative rules for new passwords, see
+ * {@link PasswordConfig.passwordPolicy}.
+ */
+export interface PasswordPolicy<DataModel extends GenericDataModel> {
+  /**
+   * The minimum number of characters. Defaults to 8.
+   */
+  minLength?: number;
+  /**
+   * The maximum number of characters.
+   */
+  maxLength?: number;
+  /**
+   * Require at least one lowercase letter.
+   */
+  requireLowercase?: boolean;
+  /**
+   * Require at least one uppercase letter.
+   */
+  requireUppercase?: boolean;
+  /**
+   * Require at least one digit.
+   */
+  requireDigit?: boolean;
+  /**
+   * Require at least one character which is not a letter or a digit.
+   */
+  requireSymbol?: boolean;
+  /**
+   * Reject passwords which contain the user's email address
+   * or its local part (before the `@`).
+   */
+  disallowEmail?: boolean;
+  /**
+   * Check whether the password is known to have been leaked,
+   * for example against a local hashed blocklist or the
+   * [haveibeenpwned](https://haveibeenpwned.com/API/v3#PwnedPasswords)
+   * range API.
+   *
+   * Only called if the password satisfies all other rules.
+   */
+  isBreached?: (
+    password: string,
+    ctx: GenericActionCtxWithAuthConfig<DataModel>,
+  ) => Promise<boolean>;
 }
 
+/**
+ * A rule of {@link PasswordPolicy} a password can break.
+ */
+export type PasswordRule =
+  | "minLength"
+  | "maxLength"
+  | "lowercase"
+  | "uppercase"
+  | "digit"
+  | "symbol"
+  | "email"
+  | "breached";
+
+/**
+ * The data of the `ConvexError` thrown when a new password
+ * doesn't satisfy the {@link PasswordPolicy}:
+ *
+ * ```ts
+ * import { ConvexError } from "convex/values";
+ * import { InvalidPasswordErrorData } from "@convex-dev/auth/providers/Password";
+ *
+ * try {
+ *   await signIn("password", formData);
+ * } catch (error) {
+ *   if (error instanceof ConvexError) {
+ *     const { failedRules } = error.data as InvalidPasswordErrorData;
+ *     // Show which rules failed
+ *   }
+ * }
+ * ```
+ */
+export type InvalidPasswordErrorData = {
+  code: "InvalidPassword";
+  failedRules: PasswordRule[];
+};
+
 /**
  * Email and password authentication provider.
  *
@@ -107,9 +213,22 @@ export function Password<DataModel extends GenericDataModel>(
   return ConvexCredentials<DataModel>({
     id: "password",
     authorize: async (params, ctx) => {
-      const profile = config.profile?.(params, ctx) ?? defaultProfile(params);
+      const profile =
+        config.profile?.(params, ctx) ??
+        defaultProfile(params, config.passwordPolicy === undefined);
       const { email } = profile;
       const flow = params.flow as string;
+      if (config.passwordPolicy !== undefined) {
+        const newPassword = newPasswordParam(params);
+        if (newPassword !== undefined) {
+          await checkPasswordPolicy(
+            config.passwordPolicy,
+            newPassword,
+            email,
+            ctx,
+          );
+        }
+      }
       const secret = params.password as string;
       let account: GenericDoc<DataModel, "authAccounts">;
       let user: GenericDoc<DataModel, "users">;
@@ -169,7 +288,11 @@ export function Password<DataModel extends GenericDataModel>(
           provider,
           account: { id: email, secret },
         });
-        await invalidateSessions(ctx, { userId, except: [sessionId] });
+        // There's no new session yet if the user has to complete MFA
+        await invalidateSessions(ctx, {
+          userId,
+          except: sessionId !== undefined ? [sessionId] : [],
+        });
         return { userId, sessionId };
         // END
         // START: Optional, email verification during sign in
@@ -186,11 +309,40 @@ export function Password<DataModel extends GenericDataModel>(
           params,
         });
         // END
+        // START: Optional, password change for signed-in users
+      } else if (flow === "change-password") {
+        const userId = await getAuthUserId(ctx);
+        const sessionId = await getAuthSessionId(ctx);
+        if (userId === null || sessionId === null) {
+          throw new Error("Cannot change password without being signed in");
+        }
+        if (secret === undefined || params.newPassword === undefined) {
+          throw new Error(
+            "Missing `password` or `newPassword` param for `change-password` flow",
+          );
+        }
+        // Subject to the same rate limit as signing in
+        const { user } = await retrieveAccount(ctx, {
+          provider,
+          account: { id: email, secret },
+        });
+        if (user._id !== userId) {
+          throw new Error("Cannot change the password of another user");
+        }
+        await modifyAccountCredentials(ctx, {
+          provider,
+          account: { id: email, secret: params.newPassword as string },
+        });
+        if (config.invalidateSessionsOnChange) {
+          await invalidateSessions(ctx, { userId, except: [sessionId] });
+        }
+        return { userId, sessionId };
+        // END
       } else {
         throw new Error(
           "Missing `flow` param, it must be one of " +
-            '"signUp", "signIn", "reset", "reset-verification" or ' +
-            '"email-verification"!',
+            '"signUp", "signIn", "reset", "reset-verification", ' +
+            '"email-verification" or "change-password"!',
         );
       }
       // START: Optional, email verification during sign in
@@ -216,12 +368,18 @@ export function Password<DataModel extends GenericDataModel>(
   });
 }
 
-function defaultProfile(params: Record<string, unknown>) {
+function defaultProfile(
+  params: Record<string, unknown>,
+  checkPasswordLength: boolean,
+) {
   const flow = params.flow as string;
-  if (flow === "signUp" || flow === "reset-verification") {
-    const password = (
-      flow === "signUp" ? params.password : params.newPassword
-    ) as string;
+  if (
+    checkPasswordLength &&
+    (flow === "signUp" ||
+      flow === "reset-verification" ||
+      flow === "change-password")
+  ) {
+    const password = newPasswordParam(params);
     if (!password || password.length < 8) {
       throw new Error("Invalid password");
     }
@@ -230,3 +388,62 @@ function defaultProfile(params: Record<string, unknown>) {
     email: params.email as string,
   };
 }
+
+// The password being set by the current flow, if any.
+function newPasswordParam(params: Record<string, unknown>) {
+  const flow = params.flow as string;
+  if (flow === "signUp") {
+    return params.password as string | undefined;
+  }
+  if (flow === "reset-verification" || flow === "change-password") {
+    return params.newPassword as string | undefined;
+  }
+  return undefined;
+}
+
+async function checkPasswordPolicy<DataModel extends GenericDataModel>(
+  policy: PasswordPolicy<DataModel>,
+  password: string,
+  email: string,
+  ctx: GenericActionCtxWithAuthConfig<DataModel>,
+) {
+  const failedRules: PasswordRule[] = [];
+  if (password.length < (policy.minLength ?? 8)) {
+    failedRules.push("minLength");
+  }
+  if (policy.maxLength !== undefined && password.length > policy.maxLength) {
+    failedRules.push("maxLength");
+  }
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    failedRules.push("lowercase");
+  }
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    failedRules.push("uppercase");
+  }
+  if (policy.requireDigit && !/\p{N}/u.test(password)) {
+    failedRules.push("digit");
+  }
+  if (policy.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+    failedRules.push("symbol");
+  }
+  if (policy.disallowEmail && typeof email === "string") {
+    const [localPart] = email.toLowerCase().split("@");
+    // Very short local parts would reject too many passwords
+    if (localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+      failedRules.push("email");
+    }
+  }
+  if (
+    failedRules.length === 0 &&
+    policy.isBreached !== undefined &&
+    (await policy.isBreached(password, ctx))
+  ) {
+    failedRules.push("breached");
+  }
+  if (failedRules.length > 0) {
+    throw new ConvexError({
+      code: "InvalidPassword",
+      failedRules,
+    } satisfies InvalidPasswordErrorData);
+  }
+}
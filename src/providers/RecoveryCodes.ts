@@ -0,0 +1,74 @@
+/**
+ * Configure {@link RecoveryCodes} provider given a {@link RecoveryCodesConfig}.
+ *
+ * The `RecoveryCodes` provider lets users complete an MFA challenge
+ * with a one-time code when they lose access to their other factors:
+ *
+ * 1. The signed-in user generates the codes via `generateRecoveryCodes`
+ *    from `@convex-dev/auth/server` and stores them somewhere safe.
+ * 2. At sign-in, the user passes one of the codes with the MFA challenge:
+ *    `signIn("recovery-code", { code, mfaChallenge })`.
+ *
+ * ```ts
+ * import RecoveryCodes from "@convex-dev/auth/providers/RecoveryCodes";
+ * import TOTP from "@convex-dev/auth/providers/TOTP";
+ * import { convexAuth } from "@convex-dev/auth/server";
+ *
+ * export const { auth, signIn, signOut, store } = convexAuth({
+ *   providers: [TOTP({ issuer: "My App" }), RecoveryCodes()],
+ *   mfa: { factors: ["totp", "recovery-code"] },
+ * });
+ * ```
+ *
+ * The codes are stored hashed, and each code can only be used once.
+ *
+ * @module
+ */
+
+import { ConvexCredentials } from "@convex-dev/auth/providers/ConvexCredentials";
+import { verifyRecoveryCode } from "@convex-dev/auth/server";
+import { GenericDataModel } from "convex/server";
+
+/**
+ * The available options to a {@link RecoveryCodes} provider for Convex Auth.
+ */
+export interface RecoveryCodesConfig {
+  /**
+   * Uniquely identifies the provider, allowing to use
+   * multiple different {@link RecoveryCodes} providers.
+   */
+  id?: string;
+  /**
+   * How many codes are generated at once. Defaults to 10.
+   */
+  count?: number;
+}
+
+/**
+ * One-time recovery codes provider.
+ */
+export function RecoveryCodes<DataModel extends GenericDataModel>(
+  config: RecoveryCodesConfig = {},
+) {
+  const provider = config.id ?? "recovery-code";
+  const options = { ...config, recoveryCodes: config };
+  return ConvexCredentials<DataModel>({
+    id: "recovery-code",
+    authorize: async (params, ctx, { accountId }) => {
+      const code = params.code;
+      if (typeof code !== "string") {
+        throw new Error("Missing `code` param for recovery codes provider");
+      }
+      // Only the user who completed the first sign-in step can use a code
+      if (accountId === undefined) {
+        throw new Error(
+          "Recovery codes can only be used with an `mfaChallenge`",
+        );
+      }
+      return await verifyRecoveryCode(ctx, { provider, code, accountId });
+    },
+    ...options,
+  });
+}
+
+export default RecoveryCodes;
@@ -0,0 +1,102 @@
+/**
+ * Configure {@link TOTP} provider given a {@link TOTPConfig}.
+ *
+ * The `TOTP` provider implements authenticator app (Google Authenticator,
+ * 1Password etc.) codes as a second factor:
+ *
+ * 1. The signed-in user starts the enrollment via `enrollTOTP`
+ *    from `@convex-dev/auth/server`, which returns the secret and
+ *    an `otpauth://` URI to show as a QR code.
+ * 2. The user confirms the enrollment by calling `signIn("totp", { code })`
+ *    with the first code from their app.
+ * 3. With the provider listed in `mfa.factors`, signing in with
+ *    the first factor returns `mfaRequired` instead of tokens.
+ *    The user completes the challenge by calling
+ *    `signIn("totp", { code, mfaChallenge: mfaRequired.challenge })`.
+ *
+ * ```ts
+ * import { Password } from "@convex-dev/auth/providers/Password";
+ * import TOTP from "@convex-dev/auth/providers/TOTP";
+ * import { convexAuth } from "@convex-dev/auth/server";
+ *
+ * export const { auth, signIn, signOut, store } = convexAuth({
+ *   providers: [Password, TOTP({ issuer: "My App" })],
+ *   mfa: { factors: ["totp"] },
+ * });
+ * ```
+ *
+ * The secrets are encrypted with the `AUTH_TOTP_KEY` environment
+ * variable, and each code can only be used once.
+ *
+ * @module
+ */
+
+import { ConvexCredentials } from "@convex-dev/auth/providers/ConvexCredentials";
+import { getAuthSessionId, verifyTOTP } from "@convex-dev/auth/server";
+import { GenericDataModel } from "convex/server";
+
+/**
+ * The available options to a {@link TOTP} provider for Convex Auth.
+ */
+export interface TOTPConfig {
+  /**
+   * Uniquely identifies the provider, allowing to use
+   * multiple different {@link TOTP} providers.
+   */
+  id?: string;
+  /**
+   * The name of your app shown in authenticator apps.
+   */
+  issuer: string;
+  /**
+   * The number of digits of each code. Defaults to 6.
+   */
+  digits?: number;
+  /**
+   * How long each code is valid for, in seconds. Defaults to 30.
+   */
+  period?: number;
+  /**
+   * How many codes before and after the current one are accepted,
+   * to allow for clock drift. Defaults to 1.
+   */
+  window?: number;
+  /**
+   * The key used to encrypt the secrets stored in the `authAccounts`
+   * table. Defaults to the `AUTH_TOTP_KEY` environment variable.
+   */
+  encryptionKey?: string;
+}
+
+/**
+ * Authenticator app (time-based one-time password) provider.
+ */
+export function TOTP<DataModel extends GenericDataModel>(config: TOTPConfig) {
+  const provider = config.id ?? "totp";
+  const options = { ...config, totp: config };
+  return ConvexCredentials<DataModel>({
+    id: "totp",
+    authorize: async (params, ctx, { accountId }) => {
+      const code = params.code;
+      if (typeof code !== "string") {
+        throw new Error("Missing `code` param for TOTP provider");
+      }
+      // Sign in the user who completed the first sign-in step
+      if (accountId !== undefined) {
+        return await verifyTOTP(ctx, { provider, code, accountId });
+      }
+      // Confirm the signed-in user's enrollment, keeping their session
+      const sessionId = await getAuthSessionId(ctx);
+      if (sessionId === null) {
+        throw new Error(
+          "Cannot confirm TOTP enrollment without being signed in",
+        );
+      }
+      const { userId } = await verifyTOTP(ctx, { provider, code });
+      return { userId, sessionId };
+    },
+    ...options,
+  });
+}
+
+export default TOTP;
@@ -1,4 +1,4 @@
-import { Value } from "convex/values";
+import { GenericId, Value } from "convex/values";
 import {
   ReactNode,
   createContext,
@@ -10,12 +10,16 @@ import {
   useState,
 } from "react";
 import type {
+  ListAccountsAction,
   SignInAction,
   SignOutAction,
+  UnlinkAccountAction,
 } from "../server/implementation/index.js";
 import { AuthClient } from "./clientType.js";
+import { createPasskeyCredential, getPasskeyCredential } from "./passkeys.js";
 import type {
   ConvexAuthActionsContext as ConvexAuthActionsContextType,
+  MfaChallenge,
   TokenStorage,
 } from "./index.js";
 
@@ -38,6 +42,10 @@ export function useAuth() {
 
 export const ConvexAuthTokenContext = createContext<string | null>(null);
 
+export const ConvexAuthMfaChallengeContext = createContext<MfaChallenge | null>(
+  null,
+);
+
 const VERIFIER_STORAGE_KEY = "__convexAuthOAuthVerifier";
 const JWT_STORAGE_KEY = "__convexAuthJWT";
 const REFRESH_TOKEN_STORAGE_KEY = "__convexAuthRefreshToken";
@@ -50,6 +58,7 @@ export function AuthProvider({
   storage,
   storageNamespace,
   replaceURL,
+  deviceLabel,
   children,
 }: {
   client: AuthClient;
@@ -61,11 +70,14 @@ export function AuthProvider({
   storage: TokenStorage | null;
   storageNamespace: string;
   replaceURL: (relativeUrl: string) => void | Promise<void>;
+  deviceLabel?: string;
   children: ReactNode;
 }) {
   const token = useRef<string | null>(serverState?._state.token ?? null);
   const [isLoading, setIsLoading] = useState(token.current === null);
   const [tokenState, setTokenState] = useState<string | null>(token.current);
+  // Second factor challenge from a sign-in completed via a redirect.
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
 
   const verbose: boolean = client.verbose ?? false;
   const logVerbose = useCallback(
@@ -79,6 +91,16 @@ export function AuthProvider({
   const { storageSet, storageGet, storageRemove, storageKey } =
     useNamespacedStorage(storage, storageNamespace);
 
+  // Stored on the session created during sign-in.
+  const metadata = useMemo(
+    () => ({
+      userAgent:
+        typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+      deviceLabel,
+    }),
+    [deviceLabel],
+  );
+
   const [isRefreshingToken, setIsRefreshingToken] = useState(false);
   const setToken = useCallback(
     async (
@@ -171,18 +193,27 @@ export function AuthProvider({
       const { tokens } = await client.unauthenticatedCall(
         "auth:signIn" as unknown as SignInAction,
         "code" in args
-          ? { params: { code: args.code }, verifier: args.verifier }
+          ? { params: { code: args.code }, verifier: args.verifier, metadata }
           : args,
       );
       logVerbose(`retrieved tokens, is null: ${tokens === null}`);
       await setToken({ shouldStore: true, tokens: tokens ?? null });
       return tokens !== null;
     },
-    [client, setToken],
+    [client, setToken, metadata],
   );
 
-  const signIn = useCallback(
-    async (provider?: string, args?: FormData | Record<string, Value>) => {
+  const signInWithOptions = useCallback(
+    async (
+      provider: string | undefined,
+      args: FormData | Record<string, Value> | undefined,
+      options: {
+        reauthenticate?: boolean;
+        link?: boolean;
+        changeEmail?: boolean;
+        changePhone?: boolean;
+      },
+    ) => {
       const params =
         args instanceof FormData
           ? Array.from(args.entries()).reduce(
@@ -198,7 +229,16 @@ export function AuthProvider({
       await storageRemove(VERIFIER_STORAGE_KEY);
       const result = await client.authenticatedCall(
         "auth:signIn" as unknown as SignInAction,
-        { provider, params, verifier },
+        {
+          provider,
+          params,
+          verifier,
+          metadata,
+          reauthenticate: options.reauthenticate,
+          link: options.link,
+          changeEmail: options.changeEmail,
+          changePhone: options.changePhone,
+        },
       );
       if (result.redirect !== undefined) {
         const url = new URL(result.redirect);
@@ -212,11 +252,97 @@ export function AuthProvider({
         const { tokens } = result;
         logVerbose(`signed in and got tokens, is null: ${tokens === null}`);
         await setToken({ shouldStore: true, tokens });
+        if (tokens !== null) {
+          setMfaChallenge(null);
+        }
         return { signingIn: result.tokens !== null };
+      } else if (result.mfaRequired !== undefined) {
+        return { signingIn: false, mfaRequired: result.mfaRequired };
       }
       return { signingIn: false };
     },
-    [client, setToken, storageGet],
+    [client, setToken, storageGet, metadata],
+  );
+
+  const signIn = useCallback(
+    (provider?: string, args?: FormData | Record<string, Value>) =>
+      signInWithOptions(provider, args, {}),
+    [signInWithOptions],
+  );
+
+  const reauthenticate = useCallback(
+    (provider: string, args?: FormData | Record<string, Value>) =>
+      signInWithOptions(provider, args, { reauthenticate: true }),
+    [signInWithOptions],
+  );
+
+  const linkAccount = useCallback(
+    (provider: string, args?: FormData | Record<string, Value>) =>
+      signInWithOptions(provider, args, { link: true }),
+    [signInWithOptions],
+  );
+
+  const changeEmail = useCallback(
+    (provider: string, args?: FormData | Record<string, Value>) =>
+      signInWithOptions(provider, args, { changeEmail: true }),
+    [signInWithOptions],
+  );
+
+  const changePhone = useCallback(
+    (provider: string, args?: FormData | Record<string, Value>) =>
+      signInWithOptions(provider, args, { changePhone: true }),
+    [signInWithOptions],
+  );
+
+  const passkeyCeremony = useCallback(
+    async (
+      provider: string,
+      params: Record<string, Value> | undefined,
+      flow: "register" | "signIn",
+    ) => {
+      const { passkeyOptions, verifier } = await client.authenticatedCall(
+        "auth:signIn" as unknown as SignInAction,
+        { provider, params: { ...params, flow }, metadata },
+      );
+      if (passkeyOptions === undefined) {
+        throw new Error(`Provider ${provider} is not a passkey provider`);
+      }
+      const credential =
+        flow === "register"
+          ? await createPasskeyCredential(passkeyOptions)
+          : await getPasskeyCredential(passkeyOptions);
+      const { tokens, mfaRequired } = await client.authenticatedCall(
+        "auth:signIn" as unknown as SignInAction,
+        {
+          provider,
+          params: { ...params, flow, credential },
+          verifier,
+          metadata,
+        },
+      );
+      if (mfaRequired !== undefined) {
+        return { signingIn: false, mfaRequired };
+      }
+      logVerbose(`signed in with passkey, is null: ${tokens === null}`);
+      await setToken({ shouldStore: true, tokens: tokens ?? null });
+      if (tokens !== null && tokens !== undefined) {
+        setMfaChallenge(null);
+      }
+      return { signingIn: tokens !== null && tokens !== undefined };
+    },
+    [client, setToken, metadata],
+  );
+
+  const registerPasskey = useCallback(
+    (provider: string, params?: Record<string, Value>) =>
+      passkeyCeremony(provider, params, "register"),
+    [passkeyCeremony],
+  );
+
+  const signInWithPasskey = useCallback(
+    (provider: string, params?: Record<string, Value>) =>
+      passkeyCeremony(provider, params, "signIn"),
+    [passkeyCeremony],
   );
 
   const signOut = useCallback(async () => {
@@ -230,8 +356,27 @@ export function AuthProvider({
     }
     logVerbose(`signed out, erasing tokens`);
     await setToken({ shouldStore: true, tokens: null });
+    setMfaChallenge(null);
   }, [setToken, client]);
 
+  const listAccounts = useCallback(
+    () =>
+      client.authenticatedCall(
+        "auth:listAccounts" as unknown as ListAccountsAction,
+      ),
+    [client],
+  );
+
+  const unlinkAccount = useCallback(
+    async (accountId: GenericId<"authAccounts">) => {
+      await client.authenticatedCall(
+        "auth:unlinkAccount" as unknown as UnlinkAccountAction,
+        { accountId },
+      );
+    },
+    [client],
+  );
+
   const fetchAccessToken = useCallback(
     async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
       if (forceRefreshToken) {
@@ -333,7 +478,11 @@ export function AuthProvider({
           url.searchParams.delete("code");
           void (async () => {
             await replaceURL(url.pathname + url.search + url.hash);
-            await signIn(undefined, { code });
+            const { mfaRequired } = await signIn(undefined, { code });
+            if (mfaRequired !== undefined) {
+              logVerbose(`second factor required after code exchange`);
+              setMfaChallenge(mfaRequired);
+            }
             signingInWithCodeFromURL.current = false;
           })();
         }
@@ -346,8 +495,53 @@ export function AuthProvider({
     // on mount.
     [client, storageGet],
   );
+  // The Next.js middleware exchanges the code itself and passes
+  // the second factor challenge along in the URL.
+  useEffect(() => {
+    if (typeof window?.location === "undefined") {
+      return;
+    }
+    const url = new URL(window.location.href);
+    const challenge = url.searchParams.get("mfaChallenge");
+    if (challenge === null) {
+      return;
+    }
+    const factors = url.searchParams.get("mfaFactors");
+    url.searchParams.delete("mfaChallenge");
+    url.searchParams.delete("mfaFactors");
+    setMfaChallenge({
+      challenge,
+      factors: factors ? factors.split(",") : [],
+    });
+    void replaceURL(url.pathname + url.search + url.hash);
+  }, []);
 
-  const actions = useMemo(() => ({ signIn, signOut }), [signIn, signOut]);
+  const actions = useMemo(
+    () => ({
+      signIn,
+      signOut,
+      reauthenticate,
+      linkAccount,
+      changeEmail,
+      changePhone,
+      registerPasskey,
+      signInWithPasskey,
+      listAccounts,
+      unlinkAccount,
+    }),
+    [
+      signIn,
+      signOut,
+      reauthenticate,
+      linkAccount,
+      changeEmail,
+      changePhone,
+      registerPasskey,
+      signInWithPasskey,
+      listAccounts,
+      unlinkAccount,
+    ],
+  );
   const isAuthenticated = tokenState !== null;
   const authState = useMemo(
     () => ({
@@ -362,7 +556,9 @@ export function AuthProvider({
     <ConvexAuthInternalContext.Provider value={authState}>
       <ConvexAuthActionsContext.Provider value={actions}>
         <ConvexAuthTokenContext.Provider value={tokenState}>
-          {children}
+          <ConvexAuthMfaChallengeContext.Provider value={mfaChallenge}>
+            {children}
+          </ConvexAuthMfaChallengeContext.Provider>
         </ConvexAuthTokenContext.Provider>
       </ConvexAuthActionsContext.Provider>
     </ConvexAuthInternalContext.Provider>
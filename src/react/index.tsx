@@ -8,18 +8,21 @@
 
 import { ConvexHttpClient } from "convex/browser";
 import { ConvexProviderWithAuth, ConvexReactClient } from "convex/react";
-import { Value } from "convex/values";
+import { GenericId, Value } from "convex/values";
 import { ReactNode, useContext, useMemo } from "react";
 import {
   AuthProvider,
   ConvexAuthActionsContext,
+  ConvexAuthMfaChallengeContext,
   ConvexAuthTokenContext,
   useAuth,
 } from "./client.js";
 import { AuthClient } from "./clientType.js";
 
 /**
- * Use this hook to access the `signIn` and `signOut` methods:
+ * Use this hook to access the `signIn`, `signOut`, `reauthenticate`,
+ * `linkAccount`, `changeEmail`, `changePhone`, `registerPasskey`,
+ * `signInWithPasskey`, `listAccounts` and `unlinkAccount` methods:
  *
  * ```ts
  * import { useAuthActions } from "@convex-dev/auth/react";
@@ -86,13 +89,27 @@ export function ConvexAuthProvider(props: {
      */
     relativeUrl: string,
   ) => void | Promise<void>;
+  /**
+   * Optional human-readable name for this device or app,
+   * stored on sessions created during sign-in.
+   *
+   * Useful for showing the user where they're signed in.
+   */
+  deviceLabel?: string;
   /**
    * Children components can call Convex hooks
    * and {@link useAuthActions}.
    */
   children: ReactNode;
 }) {
-  const { client, storage, storageNamespace, replaceURL, children } = props;
+  const {
+    client,
+    storage,
+    storageNamespace,
+    replaceURL,
+    deviceLabel,
+    children,
+  } = props;
   const authClient = useMemo(
     () =>
       ({
@@ -126,6 +143,7 @@ export function ConvexAuthProvider(props: {
           window.history.replaceState({}, "", url);
         })
       }
+      deviceLabel={deviceLabel}
     >
       <ConvexProviderWithAuth client={client} useAuth={useAuth}>
         {children}
@@ -165,6 +183,21 @@ export interface TokenStorage {
   removeItem: (key: string) => void | Promise<void>;
 }
 
+/**
+ * Returned by `signIn` when the user has to complete a second factor,
+ * see the `mfa` option of `convexAuth`.
+ */
+export type MfaChallenge = {
+  /**
+   * Pass this as the `mfaChallenge` param to `signIn`.
+   */
+  challenge: string;
+  /**
+   * The IDs of the second factor providers the user enrolled in.
+   */
+  factors: string[];
+};
+
 /**
  * The result of calling {@link useAuthActions}.
  */
@@ -195,6 +228,8 @@ export type ConvexAuthActionsContext = {
      *     See [redirect callback](https://labs.convex.dev/auth/api_reference/server#callbacksredirect).
      *  - `code`: OTP code for email or phone verification, or
      *     (used only in RN) the code from an OAuth flow or magic link URL.
+     *  - `mfaChallenge`: The `challenge` from a previous `mfaRequired`
+     *     result, completed by signing in with one of the second factors.
      */
     params?:
       | FormData
@@ -209,6 +244,10 @@ export type ConvexAuthActionsContext = {
            * (used only in RN) the code from an OAuth flow or magic link URL.
            */
           code?: string;
+          /**
+           * The `challenge` from a previous `mfaRequired` result.
+           */
+          mfaChallenge?: string;
         }),
   ): Promise<{
     /**
@@ -227,6 +266,12 @@ export type ConvexAuthActionsContext = {
      * this URL.
      */
     redirect?: URL;
+    /**
+     * If the user has to complete a second factor, the challenge
+     * to pass as the `mfaChallenge` param and the IDs of the
+     * providers the user enrolled in.
+     */
+    mfaRequired?: MfaChallenge;
   }>;
 
   /**
@@ -236,6 +281,138 @@ export type ConvexAuthActionsContext = {
    * and deletes the locally stored JWT and refresh token.
    */
   signOut(this: void): Promise<void>;
+
+  /**
+   * Authenticate the signed-in user again, without creating a new session.
+   *
+   * Takes the same arguments as `signIn`, and updates the authentication
+   * time of the current session checked by
+   * [`requireRecentAuth`](https://labs.convex.dev/auth/api_reference/server#requirerecentauth).
+   *
+   * Fails if the credentials belong to a different user.
+   */
+  reauthenticate(
+    this: void,
+    provider: string,
+    params?: Parameters<ConvexAuthActionsContext["signIn"]>[1],
+  ): ReturnType<ConvexAuthActionsContext["signIn"]>;
+
+  /**
+   * Link an OAuth provider to the signed-in user's account.
+   *
+   * Takes the same arguments as `signIn` and redirects to the provider.
+   * Unlike `signIn`, it fails if the user isn't signed in, and the OAuth
+   * sign-in fails if the provider account is already linked to
+   * a different user, instead of signing in as that user.
+   */
+  linkAccount(
+    this: void,
+    provider: string,
+    params?: Parameters<ConvexAuthActionsContext["signIn"]>[1],
+  ): ReturnType<ConvexAuthActionsContext["signIn"]>;
+
+  /**
+   * Change the signed-in user's email address.
+   *
+   * Takes the same arguments as `signIn` with an email provider, and sends
+   * a code or link to the new address passed as `email`. Once the code
+   * is verified, the user's email and the IDs of accounts keyed
+   * by the previous address are updated.
+   *
+   * Fails with `"EmailInUse"` `ConvexError` data if the new address
+   * belongs to another user, and with `"ReauthenticationRequired"`
+   * if the user didn't sign in in the last 5 minutes.
+   */
+  changeEmail(
+    this: void,
+    provider: string,
+    params?: Parameters<ConvexAuthActionsContext["signIn"]>[1],
+  ): ReturnType<ConvexAuthActionsContext["signIn"]>;
+
+  /**
+   * Change the signed-in user's phone number.
+   *
+   * Takes the same arguments as `signIn` with a phone provider, and sends
+   * a code to the new number passed as `phone`. Once the code is verified,
+   * the user's phone and the IDs of accounts keyed by the previous number
+   * are updated.
+   *
+   * Fails with `"PhoneInUse"` `ConvexError` data if the new number
+   * belongs to another user, and with `"ReauthenticationRequired"`
+   * if the user didn't sign in in the last 5 minutes.
+   */
+  changePhone(
+    this: void,
+    provider: string,
+    params?: Parameters<ConvexAuthActionsContext["signIn"]>[1],
+  ): ReturnType<ConvexAuthActionsContext["signIn"]>;
+
+  /**
+   * Register a passkey via the browser's WebAuthn API.
+   *
+   * If the user is signed in, the passkey is added to their account,
+   * otherwise a new user is created and signed in.
+   * The `params` are passed to the provider's `profile` method.
+   */
+  registerPasskey(
+    this: void,
+    provider: string,
+    params?: Record<string, Value>,
+  ): Promise<{ signingIn: boolean; mfaRequired?: MfaChallenge }>;
+
+  /**
+   * Sign in with one of the user's passkeys via the browser's WebAuthn API.
+   *
+   * The browser lets the user pick from the passkeys registered
+   * for your site.
+   */
+  signInWithPasskey(
+    this: void,
+    provider: string,
+    params?: Record<string, Value>,
+  ): Promise<{ signingIn: boolean; mfaRequired?: MfaChallenge }>;
+
+  /**
+   * List the accounts (OAuth, password, email etc.) linked
+   * to the signed-in user.
+   *
+   * Requires exporting `listAccounts` from `convex/auth.ts`.
+   */
+  listAccounts(this: void): Promise<
+    {
+      accountId: GenericId<"authAccounts">;
+      /**
+       * The ID of the provider the account belongs to.
+       */
+      provider: string;
+      /**
+       * The account's ID at the provider, like an email address.
+       */
+      providerAccountId: string;
+      /**
+       * The verified email address of the account, if any.
+       */
+      emailVerified: string | null;
+      /**
+       * The verified phone number of the account, if any.
+       */
+      phoneVerified: string | null;
+      creationTime: number;
+    }[]
+  >;
+
+  /**
+   * Unlink one of the signed-in user's accounts, so that it can
+   * no longer be used to sign in.
+   *
+   * Requires exporting `unlinkAccount` from `convex/auth.ts`.
+   * Fails with `"CannotUnlinkLastAccount"` `ConvexError` data
+   * if it's the user's only account.
+   */
+  unlinkAccount(
+    this: void,
+    accountId: GenericId<"authAccounts">,
+  ): Promise<void>;
 };
 
 /**
@@ -264,3 +441,28 @@ export type ConvexAuthActionsContext = {
 export function useAuthToken() {
   return useContext(ConvexAuthTokenContext);
 }
+
+/**
+ * Use this hook to access the second factor challenge of a sign-in
+ * which completed via a redirect, like OAuth and magic link sign-ins,
+ * where there is no `signIn` call to return `mfaRequired`.
+ *
+ * ```tsx
+ * import { useAuthActions, useMfaChallenge } from "@convex-dev/auth/react";
+ *
+ * function SomeComponent() {
+ *   const { signIn } = useAuthActions();
+ *   const mfaChallenge = useMfaChallenge();
+ *   const onSubmit = async (code: string) => {
+ *     await signIn("totp", { code, mfaChallenge: mfaChallenge!.challenge });
+ *   };
+ *   // ...
+ * }
+ * ```
+ *
+ * @returns the pending challenge, or `null` once the user signed in
+ * or signed out.
+ */
+export function useMfaChallenge() {
+  return useContext(ConvexAuthMfaChallengeContext);
+}
@@ -0,0 +1,78 @@
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyRegistrationCredential,
+} from "../server/implementation/passkeys.js";
+
+/**
+ * Create a passkey via `navigator.credentials.create()` given the
+ * options returned by the server.
+ */
+export async function createPasskeyCredential(
+  options: Record<string, any>,
+): Promise<PasskeyRegistrationCredential> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...(options as PublicKeyCredentialCreationOptions),
+      challenge: decode(options.challenge),
+      user: { ...options.user, id: decode(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(
+        (descriptor: { type: "public-key"; id: string }) => ({
+          ...descriptor,
+          id: decode(descriptor.id),
+        }),
+      ),
+    },
+  })) as PublicKeyCredential | null;
+  if (credential === null) {
+    throw new Error("Passkey registration was cancelled");
+  }
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey();
+  if (publicKey === null) {
+    throw new Error("The authenticator didn't return a public key");
+  }
+  return {
+    id: credential.id,
+    clientDataJSON: encode(response.clientDataJSON),
+    authenticatorData: encode(response.getAuthenticatorData()),
+    publicKey: encode(publicKey),
+    publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+  };
+}
+
+/**
+ * Sign the server's challenge with one of the user's passkeys
+ * via `navigator.credentials.get()`.
+ */
+export async function getPasskeyCredential(
+  options: Record<string, any>,
+): Promise<PasskeyAuthenticationCredential> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...(options as PublicKeyCredentialRequestOptions),
+      challenge: decode(options.challenge),
+    },
+  })) as PublicKeyCredential | null;
+  if (credential === null) {
+    throw new Error("Passkey sign-in was cancelled");
+  }
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    clientDataJSON: encode(response.clientDataJSON),
+    authenticatorData: encode(response.authenticatorData),
+    signature: encode(response.signature),
+  };
+}
+
+function encode(data: ArrayBuffer) {
+  return btoa(String.fromCharCode(...new Uint8Array(data)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decode(data: string) {
+  const base64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,120 @@
+import { ConvexError, GenericId } from "convex/values";
+import {
+  GenericDataModel,
+  GenericMutationCtx,
+  GenericQueryCtx,
+} from "convex/server";
+import { Doc, MutationCtx, QueryCtx } from "./types.js";
+import { LOG_LEVELS, logWithLevel } from "./utils.js";
+
+/**
+ * List the accounts linked to the given user, for example
+ * to show a "connected accounts" page:
+ *
+ * ```ts filename="convex/accounts.ts"
+ * import { query } from "./_generated/server";
+ * import { getAuthUserId, listAccounts } from "@convex-dev/auth/server";
+ *
+ * export const list = query({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     const userId = await getAuthUserId(ctx);
+ *     if (userId === null) {
+ *       return [];
+ *     }
+ *     return await listAccounts(ctx, userId);
+ *   },
+ * });
+ * ```
+ *
+ * Account secrets (like password hashes) are never returned.
+ *
+ * @param ctx query or mutation `ctx`
+ * @param userId the ID of the user whose accounts to list
+ * @returns the user's accounts, ordered by provider
+ */
+export async function listAccounts<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(ctx: GenericQueryCtx<DataModel>, userId: GenericId<"users">) {
+  const queryCtx = ctx as unknown as QueryCtx;
+  const accounts = await userAccounts(queryCtx, userId);
+  return accounts.map((account) => ({
+    accountId: account._id,
+    provider: account.provider,
+    providerAccountId: account.providerAccountId,
+    emailVerified: account.emailVerified ?? null,
+    phoneVerified: account.phoneVerified ?? null,
+    creationTime: account._creationTime,
+  }));
+}
+
+/**
+ * Unlink (delete) the given account of the given user, so that
+ * the user can no longer sign in with it.
+ *
+ * Make sure to check that the current user is allowed to unlink
+ * the account, for example by comparing `userId` with `getAuthUserId`.
+ *
+ * @param ctx mutation `ctx`
+ * @param args.userId the ID of the user the account belongs to
+ * @param args.accountId the ID of the account to unlink
+ * @param args.factors the `mfa.factors` providers, whose accounts
+ *        can't be used to sign in on their own
+ * @throws `ConvexError` with `"CannotUnlinkLastAccount"` data
+ *         if this is the user's only account other than `factors`,
+ *         since the user would not be able to sign in anymore
+ */
+export async function unlinkAccount<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericMutationCtx<DataModel>,
+  args: {
+    userId: GenericId<"users">;
+    accountId: GenericId<"authAccounts">;
+    factors?: string[];
+  },
+) {
+  const mutationCtx = ctx as unknown as MutationCtx;
+  const { userId, accountId, factors = [] } = args;
+  const account = await mutationCtx.db.get(accountId);
+  if (account === null || account.userId !== userId) {
+    throw new Error(
+      `Cannot unlink account ${accountId}, it doesn't belong to user ${userId}`,
+    );
+  }
+  const signInAccounts = (await userAccounts(mutationCtx, userId)).filter(
+    ({ provider }) => !factors.includes(provider),
+  );
+  if (!factors.includes(account.provider) && signInAccounts.length < 2) {
+    throw new ConvexError("CannotUnlinkLastAccount");
+  }
+  const verificationCodes = await mutationCtx.db
+    .query("authVerificationCodes")
+    .withIndex("accountId", (q) => q.eq("accountId", accountId))
+    .collect();
+  for (const verificationCode of verificationCodes) {
+    await mutationCtx.db.delete(verificationCode._id);
+  }
+  const recoveryCodes = await mutationCtx.db
+    .query("authRecoveryCodes")
+    .withIndex("accountIdAndCode", (q) => q.eq("accountId", accountId))
+    .collect();
+  for (const recoveryCode of recoveryCodes) {
+    await mutationCtx.db.delete(recoveryCode._id);
+  }
+  await mutationCtx.db.delete(accountId);
+  logWithLevel(
+    LOG_LEVELS.INFO,
+    `Unlinked ${account.provider} account ${accountId} from user ${userId}`,
+  );
+}
+
+async function userAccounts(
+  ctx: QueryCtx,
+  userId: GenericId<"users">,
+): Promise<Doc<"authAccounts">[]> {
+  return await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+    .collect();
+}
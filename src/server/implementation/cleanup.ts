@@ -0,0 +1,64 @@
+import { Infer, v } from "convex/values";
+import { MutationCtx } from "./types.js";
+import { LOG_LEVELS, logWithLevel, validateBatchSize } from "./utils.js";
+
+const DEFAULT_BATCH_SIZE = 100;
+// OAuth sign-in must complete within 15 minutes (the PKCE cookie max age),
+// so older verifiers can never be used.
+const VERIFIER_MAX_AGE_MS = 1000 * 60 * 60 * 24; // 24 hours
+// Failed sign-in attempts are fully replenished after an hour,
+// so older rate limits don't limit anything.
+const RATE_LIMIT_MAX_AGE_MS = 1000 * 60 * 60; // 1 hour
+
+export const cleanupArgs = v.object({
+  batchSize: v.optional(v.number()),
+});
+
+export async function cleanupImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof cleanupArgs>,
+) {
+  const now = Date.now();
+  const batchSize = validateBatchSize(args.batchSize ?? DEFAULT_BATCH_SIZE);
+  const expired = {
+    authSessions: await ctx.db
+      .query("authSessions")
+      .withIndex("expirationTime", (q) => q.lt("expirationTime", now))
+      .take(batchSize),
+    authRefreshTokens: await ctx.db
+      .query("authRefreshTokens")
+      .withIndex("expirationTime", (q) => q.lt("expirationTime", now))
+      .take(batchSize),
+    authVerificationCodes: await ctx.db
+      .query("authVerificationCodes")
+      .withIndex("expirationTime", (q) => q.lt("expirationTime", now))
+      .take(batchSize),
+    authVerifiers: await ctx.db
+      .query("authVerifiers")
+      .withIndex("by_creation_time", (q) =>
+        q.lt("_creationTime", now - VERIFIER_MAX_AGE_MS),
+      )
+      .take(batchSize),
+    authRateLimits: await ctx.db
+      .query("authRateLimits")
+      .withIndex("lastAttemptTime", (q) =>
+        q.lt("lastAttemptTime", now - RATE_LIMIT_MAX_AGE_MS),
+      )
+      .take(batchSize),
+  };
+  const deleted = {} as Record<keyof typeof expired, number>;
+  let hasMore = false;
+  for (const table of Object.keys(expired) as (keyof typeof expired)[]) {
+    for (const doc of expired[table]) {
+      await ctx.db.delete(doc._id);
+    }
+    deleted[table] = expired[table].length;
+    hasMore ||= expired[table].length === batchSize;
+  }
+  logWithLevel(LOG_LEVELS.INFO, "Deleted expired auth documents:", deleted);
+  if (hasMore) {
+    // Requires the mutation to be exported as `cleanup` from `convex/auth.ts`
+    await ctx.scheduler.runAfter(0, "auth:cleanup" as any, args);
+  }
+  return { deleted, hasMore };
+}
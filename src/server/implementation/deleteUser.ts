@@ -0,0 +1,178 @@
+import { GenericId, Infer, v } from "convex/values";
+import { GenericDataModel, GenericMutationCtx } from "convex/server";
+import { MutationCtx } from "./types.js";
+import { deleteSession } from "./sessions.js";
+import { LOG_LEVELS, logWithLevel, validateBatchSize } from "./utils.js";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Delete the given user and all of their auth data: sessions,
+ * refresh tokens, accounts, verification codes, verifiers (including
+ * MFA and passkey challenges), rate limits and audit log events.
+ *
+ * ```ts filename="convex/users.ts"
+ * import { mutation } from "./_generated/server";
+ * import { deleteUser, getAuthUserId } from "@convex-dev/auth/server";
+ *
+ * export const deleteMe = mutation({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     const userId = await getAuthUserId(ctx);
+ *     if (userId === null) {
+ *       throw new Error("Not signed in");
+ *     }
+ *     await deleteUser(ctx, userId, {
+ *       onDelete: async (ctx, userId) => {
+ *         const messages = await ctx.db
+ *           .query("messages")
+ *           .withIndex("userId", (q) => q.eq("userId", userId))
+ *           .collect();
+ *         for (const message of messages) {
+ *           await ctx.db.delete(message._id);
+ *         }
+ *       },
+ *     });
+ *   },
+ * });
+ * ```
+ *
+ * Up to `batchSize` (default 100) documents are deleted per table
+ * in the calling mutation. If there are more, the deletion continues
+ * in scheduled runs of the `store` mutation, and the `users` document
+ * itself is deleted last, once no other auth data references it.
+ *
+ * @param ctx mutation `ctx`
+ * @param userId the ID of the user to delete
+ * @param options.onDelete called once, before any documents are
+ *        deleted, so that you can delete your own data for the user
+ * @param options.batchSize how many documents to delete per table
+ *        in a single mutation
+ * @returns whether the user was fully deleted already
+ */
+export async function deleteUser<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericMutationCtx<DataModel>,
+  userId: GenericId<"users">,
+  options?: {
+    onDelete?: (
+      ctx: GenericMutationCtx<DataModel>,
+      userId: GenericId<"users">,
+    ) => Promise<void>;
+    batchSize?: number;
+  },
+) {
+  const mutationCtx = ctx as unknown as MutationCtx;
+  await options?.onDelete?.(ctx, userId);
+  const { isDone } = await deleteUserImpl(mutationCtx, {
+    userId,
+    batchSize: options?.batchSize,
+  });
+  return isDone;
+}
+
+export const deleteUserArgs = v.object({
+  userId: v.id("users"),
+  batchSize: v.optional(v.number()),
+});
+
+export async function deleteUserImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof deleteUserArgs>,
+) {
+  const { userId } = args;
+  const batchSize = validateBatchSize(args.batchSize ?? DEFAULT_BATCH_SIZE);
+  let hasMore = false;
+
+  const sessions = await ctx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .take(batchSize);
+  for (const session of sessions) {
+    const verifiers = await ctx.db
+      .query("authVerifiers")
+      .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+      .collect();
+    for (const verifier of verifiers) {
+      await ctx.db.delete(verifier._id);
+    }
+    await deleteSession(ctx, session);
+  }
+  hasMore ||= sessions.length === batchSize;
+
+  const accounts = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+    .take(batchSize);
+  for (const account of accounts) {
+    const verificationCodes = await ctx.db
+      .query("authVerificationCodes")
+      .withIndex("accountId", (q) => q.eq("accountId", account._id))
+      .collect();
+    for (const verificationCode of verificationCodes) {
+      await ctx.db.delete(verificationCode._id);
+    }
+    const recoveryCodes = await ctx.db
+      .query("authRecoveryCodes")
+      .withIndex("accountIdAndCode", (q) => q.eq("accountId", account._id))
+      .collect();
+    for (const recoveryCode of recoveryCodes) {
+      await ctx.db.delete(recoveryCode._id);
+    }
+    const rateLimit = await ctx.db
+      .query("authRateLimits")
+      .withIndex("identifier", (q) => q.eq("identifier", account._id))
+      .unique();
+    if (rateLimit !== null) {
+      await ctx.db.delete(rateLimit._id);
+    }
+    await ctx.db.delete(account._id);
+  }
+  hasMore ||= accounts.length === batchSize;
+
+  const verifiers = await ctx.db
+    .query("authVerifiers")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .take(batchSize);
+  for (const verifier of verifiers) {
+    await ctx.db.delete(verifier._id);
+  }
+  hasMore ||= verifiers.length === batchSize;
+
+  // OTP sign-in attempts are rate limited by email or phone
+  const user = await ctx.db.get(userId);
+  for (const identifier of [user?.email, user?.phone]) {
+    if (identifier === undefined) {
+      continue;
+    }
+    const rateLimit = await ctx.db
+      .query("authRateLimits")
+      .withIndex("identifier", (q) => q.eq("identifier", identifier))
+      .unique();
+    if (rateLimit !== null) {
+      await ctx.db.delete(rateLimit._id);
+    }
+  }
+
+  const events = await ctx.db
+    .query("authEvents")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .take(batchSize);
+  for (const event of events) {
+    await ctx.db.delete(event._id);
+  }
+  hasMore ||= events.length === batchSize;
+
+  if (hasMore) {
+    await ctx.scheduler.runAfter(0, "auth:store" as any, {
+      args: { type: "deleteUser", ...args },
+    });
+    return { isDone: false };
+  }
+  if ((await ctx.db.get(userId)) !== null) {
+    await ctx.db.delete(userId);
+  }
+  logWithLevel(LOG_LEVELS.INFO, `Deleted user ${userId}`);
+  return { isDone: true };
+}
@@ -0,0 +1,89 @@
+import { ConvexError, GenericId } from "convex/values";
+import { GenericDataModel, GenericMutationCtx } from "convex/server";
+import { MutationCtx, QueryCtx } from "./types.js";
+import { deleteSession } from "./sessions.js";
+import { LOG_LEVELS, logWithLevel } from "./utils.js";
+
+/**
+ * Disable (suspend) the given user, for example to lock out
+ * an abusive user:
+ *
+ * ```ts filename="convex/admin.ts"
+ * import { v } from "convex/values";
+ * import { mutation } from "./_generated/server";
+ * import { disableUser } from "@convex-dev/auth/server";
+ *
+ * export const banUser = mutation({
+ *   args: { userId: v.id("users") },
+ *   handler: async (ctx, { userId }) => {
+ *     // Your own authorization check
+ *     await disableUser(ctx, userId);
+ *   },
+ * });
+ * ```
+ *
+ * This sets the `disabledTime` field on the `users` document and deletes
+ * all of the user's sessions. The user can't sign in again or refresh
+ * an existing session until they are enabled via {@link enableUser},
+ * sign-in attempts fail with a `ConvexError` with `"UserDisabled"` data.
+ *
+ * JWTs issued before the user was disabled stay valid until they expire.
+ *
+ * @param ctx mutation `ctx`
+ * @param userId the ID of the user to disable
+ */
+export async function disableUser<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(ctx: GenericMutationCtx<DataModel>, userId: GenericId<"users">) {
+  const mutationCtx = ctx as unknown as MutationCtx;
+  await mutationCtx.db.patch(userId, { disabledTime: Date.now() });
+  const sessions = await mutationCtx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect();
+  for (const session of sessions) {
+    await deleteSession(mutationCtx, session);
+  }
+  logWithLevel(LOG_LEVELS.INFO, `Disabled user ${userId}`);
+}
+
+/**
+ * Enable a user previously disabled via {@link disableUser},
+ * allowing them to sign in again.
+ *
+ * @param ctx mutation `ctx`
+ * @param userId the ID of the user to enable
+ */
+export async function enableUser<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(ctx: GenericMutationCtx<DataModel>, userId: GenericId<"users">) {
+  const mutationCtx = ctx as unknown as MutationCtx;
+  const user = await mutationCtx.db.get(userId);
+  if (user === null) {
+    return;
+  }
+  const { _id, _creationTime, disabledTime: _, ...fields } = user;
+  await mutationCtx.db.replace(userId, fields);
+  logWithLevel(LOG_LEVELS.INFO, `Enabled user ${userId}`);
+}
+
+export async function isUserDisabled(
+  ctx: QueryCtx,
+  userId: GenericId<"users">,
+) {
+  const user = await ctx.db.get(userId);
+  return user?.disabledTime !== undefined;
+}
+
+/**
+ * Reject signing in as a disabled user.
+ */
+export async function throwIfUserDisabled(
+  ctx: QueryCtx,
+  userId: GenericId<"users">,
+) {
+  if (await isUserDisabled(ctx, userId)) {
+    logWithLevel(LOG_LEVELS.ERROR, `User ${userId} is disabled`);
+    throw new ConvexError("UserDisabled");
+  }
+}
@@ -0,0 +1,91 @@
+import { GenericId, Infer, v } from "convex/values";
+import {
+  GenericDataModel,
+  GenericQueryCtx,
+  PaginationOptions,
+  PaginationResult,
+} from "convex/server";
+import { ConvexAuthConfig } from "../index.js";
+import { Doc, MutationCtx, QueryCtx } from "./types.js";
+
+export const authEventType = v.union(
+  v.literal("signedIn"),
+  v.literal("signInFailed"),
+  v.literal("signedOut"),
+  v.literal("refreshTokenReused"),
+  v.literal("lockedOut"),
+  v.literal("passwordChanged"),
+  v.literal("emailChanged"),
+  v.literal("phoneChanged"),
+  v.literal("accountLinked"),
+  v.literal("sessionInvalidated"),
+  v.literal("totpEnrolled"),
+  v.literal("recoveryCodesGenerated"),
+  v.literal("recoveryCodeUsed"),
+);
+
+export type AuthEventType = Infer<typeof authEventType>;
+
+/**
+ * Record an event in the `authEvents` table,
+ * if enabled via the `auditLog` config.
+ */
+export async function recordAuthEvent(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  event: {
+    type: AuthEventType;
+    userId?: GenericId<"users">;
+    sessionId?: GenericId<"authSessions">;
+    provider?: string;
+  },
+) {
+  if (!config.auditLog?.enabled) {
+    return;
+  }
+  await ctx.db.insert("authEvents", event);
+}
+
+/**
+ * Page through the auth events recorded for the given user,
+ * for example to show a security log:
+ *
+ * ```ts filename="convex/events.ts"
+ * import { paginationOptsValidator } from "convex/server";
+ * import { query } from "./_generated/server";
+ * import { getAuthUserId, listAuthEvents } from "@convex-dev/auth/server";
+ *
+ * export const list = query({
+ *   args: { paginationOpts: paginationOptsValidator },
+ *   handler: async (ctx, { paginationOpts }) => {
+ *     const userId = await getAuthUserId(ctx);
+ *     if (userId === null) {
+ *       throw new Error("Not signed in");
+ *     }
+ *     return await listAuthEvents(ctx, userId, paginationOpts);
+ *   },
+ * });
+ * ```
+ *
+ * Events are only recorded when `auditLog.enabled` is set
+ * in the `convexAuth` config.
+ *
+ * @param ctx query or mutation `ctx`
+ * @param userId the ID of the user whose events to list
+ * @param paginationOpts the pagination options passed by the client
+ * @returns a page of events, most recent first
+ */
+export async function listAuthEvents<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericQueryCtx<DataModel>,
+  userId: GenericId<"users">,
+  paginationOpts: PaginationOptions,
+): Promise<PaginationResult<Doc<"authEvents">>> {
+  const queryCtx = ctx as unknown as QueryCtx;
+  return await queryCtx.db
+    .query("authEvents")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .paginate(paginationOpts);
+}
@@ -0,0 +1,197 @@
+import { ConvexError, GenericId } from "convex/values";
+import { ConvexAuthConfig } from "../types.js";
+import { Doc, MutationCtx, QueryCtx } from "./types.js";
+import {
+  RECENT_AUTH_MAX_AGE_MS,
+  getAuthSessionId,
+  requireRecentAuth,
+} from "./sessions.js";
+import { LOG_LEVELS, logWithLevel } from "./utils.js";
+import { recordAuthEvent } from "./events.js";
+
+/**
+ * The user fields which can be changed after verification.
+ */
+export type ChangeableIdentifier = "email" | "phone";
+
+const IDENTIFIER_FIELDS = {
+  email: {
+    verificationTime: "emailVerificationTime",
+    accountVerified: "emailVerified",
+    inUseError: "EmailInUse",
+    event: "emailChanged",
+  },
+  phone: {
+    verificationTime: "phoneVerificationTime",
+    accountVerified: "phoneVerified",
+    inUseError: "PhoneInUse",
+    event: "phoneChanged",
+  },
+} as const;
+
+/**
+ * Check that the signed-in user can change their email or phone
+ * to the given value, and return the account and the session
+ * the verification code is tied to.
+ *
+ * The code is tied to one of the user's existing accounts, so that
+ * no account or user is created for the unverified value, and to
+ * the current session, which must complete the change.
+ *
+ * Changing how the user signs in requires a recent sign-in.
+ */
+export async function startIdentifierChange(
+  ctx: MutationCtx,
+  identifier: ChangeableIdentifier,
+  providerId: string,
+  value: string,
+) {
+  const sessionId = await getAuthSessionId(ctx);
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (session === null) {
+    throw new Error(`Cannot change ${identifier} without being signed in`);
+  }
+  await requireRecentAuth(ctx, RECENT_AUTH_MAX_AGE_MS);
+  const { userId } = session;
+  await throwIfIdentifierInUse(ctx, identifier, userId, value);
+  const account =
+    (await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) =>
+        q.eq("userId", userId).eq("provider", providerId),
+      )
+      .first()) ??
+    (await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+      .first());
+  if (account === null) {
+    throw new Error(
+      `Cannot change ${identifier}, user ${userId} has no accounts`,
+    );
+  }
+  return { accountId: account._id, sessionId: session._id };
+}
+
+/**
+ * Which identifier the verification code changes, if any.
+ *
+ * Change codes share the account with sign-in codes, but don't
+ * replace them, and vice versa.
+ */
+export function changedIdentifier(
+  verificationCode: Pick<
+    Doc<"authVerificationCodes">,
+    "changeEmail" | "changePhone"
+  >,
+): ChangeableIdentifier | null {
+  return verificationCode.changeEmail
+    ? "email"
+    : verificationCode.changePhone
+      ? "phone"
+      : null;
+}
+
+/**
+ * Update the user's email or phone after the new value was verified,
+ * together with the IDs of the accounts keyed by the previous value
+ * (like `Password`, `Email` and `Phone` provider accounts).
+ */
+export async function completeIdentifierChange(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  identifier: ChangeableIdentifier,
+  userId: GenericId<"users">,
+  value: string,
+) {
+  const fields = IDENTIFIER_FIELDS[identifier];
+  await throwIfIdentifierInUse(ctx, identifier, userId, value);
+  const user = await ctx.db.get(userId);
+  if (user === null) {
+    throw new Error(
+      `Cannot change ${identifier}, user ${userId} has been deleted`,
+    );
+  }
+  const previousValue = user[identifier] ?? null;
+  await ctx.db.patch(userId, {
+    [identifier]: value,
+    [fields.verificationTime]: Date.now(),
+  });
+  if (previousValue !== null) {
+    const accounts = await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+      .collect();
+    for (const account of accounts) {
+      // OAuth accounts are keyed by the provider's user ID
+      if (account.providerAccountId === previousValue) {
+        await ctx.db.patch(account._id, {
+          providerAccountId: value,
+          ...(account[fields.accountVerified] !== undefined
+            ? { [fields.accountVerified]: value }
+            : {}),
+        });
+      }
+    }
+  }
+  await recordAuthEvent(ctx, config, { type: fields.event, userId });
+  const updatedUser = (await ctx.db.get(userId))!;
+  if (identifier === "email") {
+    const onEmailChanged = config.callbacks?.onEmailChanged;
+    if (onEmailChanged !== undefined) {
+      logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onEmailChanged callback");
+      await onEmailChanged(ctx, {
+        user: updatedUser,
+        previousEmail: previousValue,
+      });
+    }
+  } else {
+    const onPhoneChanged = config.callbacks?.onPhoneChanged;
+    if (onPhoneChanged !== undefined) {
+      logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onPhoneChanged callback");
+      await onPhoneChanged(ctx, {
+        user: updatedUser,
+        previousPhone: previousValue,
+      });
+    }
+  }
+}
+
+async function throwIfIdentifierInUse(
+  ctx: QueryCtx,
+  identifier: ChangeableIdentifier,
+  userId: GenericId<"users">,
+  value: string,
+) {
+  const { inUseError } = IDENTIFIER_FIELDS[identifier];
+  const otherUser = await ctx.db
+    .query("users")
+    .withIndex(identifier, (q) => q.eq(identifier, value))
+    .filter((q) => q.neq(q.field("_id"), userId))
+    .first();
+  if (otherUser !== null) {
+    throw new ConvexError(inUseError);
+  }
+  // The accounts keyed by the previous value can't be moved
+  // if there already are accounts for the new value.
+  const previousValue = (await ctx.db.get(userId))?.[identifier];
+  if (previousValue === undefined) {
+    return;
+  }
+  const accounts = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("providerAccountId"), previousValue))
+    .collect();
+  for (const account of accounts) {
+    const existingAccount = await ctx.db
+      .query("authAccounts")
+      .withIndex("providerAndAccountId", (q) =>
+        q.eq("provider", account.provider).eq("providerAccountId", value),
+      )
+      .unique();
+    if (existingAccount !== null) {
+      throw new ConvexError(inUseError);
+    }
+  }
+}
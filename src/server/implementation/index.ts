@@ -37,18 +37,41 @@ import {
 import { GetProviderOrThrowFunc } from "./provider.js";
 import {
   callCreateAccountFromCredentials,
+  callEnrollTOTP,
+  callGenerateRecoveryCodes,
+  callImpersonate,
   callInvalidateSessions,
+  callListAccounts,
   callModifyAccount,
   callRetreiveAccountWithCredentials,
   callSignOut,
+  callUnlinkAccount,
   callUserOAuth,
   callVerifierSignature,
+  callVerifyRecoveryCode,
+  callVerifyTOTP,
   storeArgs,
   storeImpl,
 } from "./mutations/index.js";
 import { signInImpl } from "./signIn.js";
+import { cleanupArgs, cleanupImpl } from "./cleanup.js";
 import { redirectAbsoluteUrl, setURLSearchParam } from "./redirects.js";
-export { getAuthSessionId } from "./sessions.js";
+import {
+  clientSessionMetadataArgs,
+  trustedSessionMetadata,
+} from "./sessions.js";
+import { publishedJwks } from "./tokens.js";
+export {
+  getAuthSessionId,
+  listSessions,
+  revokeSession,
+  requireRecentAuth,
+} from "./sessions.js";
+export { listAuthEvents } from "./events.js";
+export { listAccounts, unlinkAccount } from "./accounts.js";
+export { deleteUser } from "./deleteUser.js";
+export { disableUser, enableUser } from "./disableUser.js";
+export { countRecoveryCodes } from "./recoveryCodes.js";
 
 /**
  * @internal
@@ -62,6 +85,18 @@ export type SignInAction = FunctionReferenceFromExport<
 export type SignOutAction = FunctionReferenceFromExport<
   ReturnType<typeof convexAuth>["signOut"]
 >;
+/**
+ * @internal
+ */
+export type ListAccountsAction = FunctionReferenceFromExport<
+  ReturnType<typeof convexAuth>["listAccounts"]
+>;
+/**
+ * @internal
+ */
+export type UnlinkAccountAction = FunctionReferenceFromExport<
+  ReturnType<typeof convexAuth>["unlinkAccount"]
+>;
 
 /**
  * Configure the Convex Auth library. Returns an object with
@@ -108,7 +143,15 @@ export function convexAuth(config_: ConvexAuthConfig) {
   };
   const enrichCtx = <DataModel extends GenericDataModel>(
     ctx: GenericActionCtx<DataModel>,
-  ) => ({ ...ctx, auth: { ...ctx.auth, config } });
+  ) => ({
+    ...ctx,
+    auth: {
+      ...ctx.auth,
+      // Don't rely on `getUserIdentity` being an own property
+      getUserIdentity: () => ctx.auth.getUserIdentity(),
+      config,
+    },
+  });
 
   const auth = {
     /**
@@ -200,7 +243,7 @@ export function convexAuth(config_: ConvexAuthConfig) {
         path: "/.well-known/jwks.json",
         method: "GET",
         handler: httpActionGeneric(async () => {
-          return new Response(requireEnv("JWKS"), {
+          return new Response(JSON.stringify(await publishedJwks(config)), {
             status: 200,
             headers: {
               "Content-Type": "application/json",
@@ -354,16 +397,27 @@ export function convexAuth(config_: ConvexAuthConfig) {
         params: v.optional(v.any()),
         verifier: v.optional(v.string()),
         refreshToken: v.optional(v.string()),
+        metadata: v.optional(clientSessionMetadataArgs),
+        reauthenticate: v.optional(v.boolean()),
+        link: v.optional(v.boolean()),
+        changeEmail: v.optional(v.boolean()),
+        changePhone: v.optional(v.boolean()),
       },
       handler: async (ctx, args) => {
         const provider =
           args.provider !== undefined
             ? getProviderOrThrow(args.provider)
             : null;
-        const result = await signInImpl(enrichCtx(ctx), provider, args, {
-          generateTokens: true,
-          allowExtraProviders: false,
-        });
+        const metadata = await trustedSessionMetadata(args.metadata);
+        const result = await signInImpl(
+          enrichCtx(ctx),
+          provider,
+          { ...args, metadata },
+          {
+            generateTokens: true,
+            allowExtraProviders: false,
+          },
+        );
         switch (result.kind) {
           case "redirect":
             return { redirect: result.redirect, verifier: result.verifier };
@@ -372,6 +426,16 @@ export function convexAuth(config_: ConvexAuthConfig) {
             return { tokens: result.signedIn?.tokens ?? null };
           case "started":
             return { started: true };
+          case "passkeyOptions":
+            return {
+              passkeyOptions: result.passkeyOptions,
+              verifier: result.verifier,
+            };
+          case "mfaRequired":
+            return { mfaRequired: result.mfaRequired };
+          case "mfaDeferred":
+            // Only returned to `signInViaProvider`
+            throw new Error("Unexpected deferred MFA challenge");
           default: {
             const _typecheck: never = result;
             throw new Error(`Unexpected result from signIn, ${result as any}`);
@@ -388,6 +452,29 @@ export function convexAuth(config_: ConvexAuthConfig) {
         await callSignOut(ctx);
       },
     }),
+    /**
+     * Action called by the client to list the accounts
+     * linked to the current user.
+     *
+     * Export it from `convex/auth.ts` to use `listAccounts`
+     * and `unlinkAccount` from `useAuthActions`.
+     */
+    listAccounts: actionGeneric({
+      args: {},
+      handler: async (ctx) => {
+        return await callListAccounts(ctx);
+      },
+    }),
+    /**
+     * Action called by the client to unlink one of the accounts
+     * linked to the current user.
+     */
+    unlinkAccount: actionGeneric({
+      args: { accountId: v.id("authAccounts") },
+      handler: async (ctx, args) => {
+        await callUnlinkAccount(ctx, args);
+      },
+    }),
 
     /**
      * Internal mutation used by the library to read and write
@@ -399,6 +486,35 @@ export function convexAuth(config_: ConvexAuthConfig) {
         return storeImpl(ctx, args, getProviderOrThrow, config);
       },
     }),
+
+    /**
+     * Internal mutation which deletes expired sessions, refresh tokens,
+     * verification codes, OAuth verifiers and rate limits.
+     *
+     * Each run deletes up to `batchSize` (default 100) documents per table,
+     * and schedules another run if there are more to delete. Returns how
+     * many documents were deleted per table.
+     *
+     * Export it from `convex/auth.ts` under the name `cleanup`, which is
+     * how the follow-up runs are scheduled, and call it from a cron job:
+     *
+     * ```ts filename="convex/crons.ts"
+     * import { cronJobs } from "convex/server";
+     * import { internal } from "./_generated/api";
+     *
+     * const crons = cronJobs();
+     *
+     * crons.hourly("auth cleanup", { minuteUTC: 0 }, internal.auth.cleanup);
+     *
+     * export default crons;
+     * ```
+     */
+    cleanup: internalMutationGeneric({
+      args: cleanupArgs,
+      handler: async (ctx: MutationCtx, args) => {
+        return cleanupImpl(ctx, args);
+      },
+    }),
   };
 }
 
@@ -434,6 +550,42 @@ export async function getAuthUserId(ctx: { auth: Auth }) {
   return userId as GenericId<"users">;
 }
 
+/**
+ * Return the ID of the user impersonating the currently signed-in user,
+ * if the current session was created via {@link impersonateUser}.
+ *
+ * During impersonation `getAuthUserId` and `getAuthSessionId` return
+ * the impersonated user and their session, use this function to tell
+ * such sessions apart, for example to prevent sensitive operations:
+ *
+ * ```ts filename="convex/myFunctions.tsx"
+ * import { mutation } from "./_generated/server";
+ * import { getAuthImpersonatorId } from "@convex-dev/auth/server";
+ *
+ * export const deleteAccount = mutation({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     if ((await getAuthImpersonatorId(ctx)) !== null) {
+ *       throw new Error("Cannot delete account while impersonating")
+ *     }
+ *     // ...
+ *   },
+ * });
+ * ```
+ *
+ * @param ctx query, mutation or action `ctx`
+ * @returns the impersonator's user ID from the `act` JWT claim,
+ *          or `null` if the client isn't impersonating anyone
+ */
+export async function getAuthImpersonatorId(ctx: { auth: Auth }) {
+  const identity = await ctx.auth.getUserIdentity();
+  const actor = identity?.act as { sub?: string } | undefined;
+  if (actor?.sub === undefined) {
+    return null;
+  }
+  return actor.sub as GenericId<"users">;
+}
+
 /**
  * Use this function from a
  * [`ConvexCredentials`](https://labs.convex.dev/auth/api_reference/providers/ConvexCredentials)
@@ -586,6 +738,218 @@ export async function invalidateSessions<
   return await callInvalidateSessions(actionCtx, args);
 }
 
+/**
+ * Use this function from a
+ * [`ConvexCredentials`](https://labs.convex.dev/auth/api_reference/providers/ConvexCredentials)
+ * provider to let the signed-in user (usually an admin) sign in
+ * as another user:
+ *
+ * ```ts filename="convex/auth.ts"
+ * ConvexCredentials({
+ *   id: "impersonate",
+ *   authorize: async (params, ctx) => {
+ *     // Your own authorization check
+ *     if (!(await ctx.runQuery(internal.users.isAdmin))) {
+ *       throw new Error("Not allowed to impersonate users");
+ *     }
+ *     const userId = params.userId as Id<"users">;
+ *     return await impersonateUser(ctx, { userId });
+ *   },
+ * }),
+ * ```
+ *
+ * The new session replaces the impersonator's session, and expires
+ * after `durationMs` (1 hour by default, at most 4 hours) regardless
+ * of activity.
+ * Its JWTs carry an `act` claim with the impersonator's user ID,
+ * see {@link getAuthImpersonatorId}.
+ *
+ * **You must check that the signed-in user is allowed to impersonate
+ * the given user before calling this function.**
+ *
+ * @returns the impersonated user's ID and the new session's ID
+ */
+export async function impersonateUser<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericActionCtx<DataModel>,
+  args: {
+    /**
+     * The ID of the user to sign in as.
+     */
+    userId: GenericId<"users">;
+    /**
+     * How long the session lasts. Defaults to 1 hour,
+     * longer durations are capped at 4 hours.
+     */
+    durationMs?: number;
+  },
+) {
+  const actionCtx = ctx as unknown as ActionCtx;
+  const { userId, sessionId } = await callImpersonate(actionCtx, {
+    ...args,
+    generateTokens: false,
+  });
+  return { userId, sessionId };
+}
+
+/**
+ * Start enrolling the signed-in user in TOTP (authenticator app)
+ * second factor via a [`TOTP`](https://labs.convex.dev/auth/api_reference/providers/TOTP)
+ * provider:
+ *
+ * ```ts filename="convex/mfa.ts"
+ * import { action } from "./_generated/server";
+ * import { enrollTOTP } from "@convex-dev/auth/server";
+ *
+ * export const startTOTPEnrollment = action({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     return await enrollTOTP(ctx, { provider: "totp" });
+ *   },
+ * });
+ * ```
+ *
+ * Show the returned `uri` as a QR code (and the `secret` for manual entry),
+ * then confirm the enrollment by calling `signIn("totp", { code })`
+ * with the first code from the user's authenticator app.
+ *
+ * Calling this function again before the enrollment is confirmed
+ * replaces the secret. To disable TOTP, unlink the user's TOTP account.
+ *
+ * Both steps fail with `"ReauthenticationRequired"` `ConvexError` data
+ * unless the user authenticated in the last 5 minutes, and for
+ * impersonation sessions.
+ *
+ * @returns the base32-encoded secret and an `otpauth://` URI
+ */
+export async function enrollTOTP<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericActionCtx<DataModel>,
+  args: {
+    /**
+     * The ID of the `TOTP` provider (like "totp").
+     */
+    provider: string;
+  },
+): Promise<{ secret: string; uri: string }> {
+  const actionCtx = ctx as unknown as ActionCtx;
+  return await callEnrollTOTP(actionCtx, args);
+}
+
+/**
+ * Use this function from a
+ * [`ConvexCredentials`](https://labs.convex.dev/auth/api_reference/providers/ConvexCredentials)
+ * provider to verify a TOTP code. Each code can only be used once.
+ *
+ * @returns the user ID, or throws if the code is invalid
+ * or the user isn't enrolled
+ */
+export async function verifyTOTP<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericActionCtx<DataModel>,
+  args: {
+    /**
+     * The ID of the `TOTP` provider (like "totp").
+     */
+    provider: string;
+    /**
+     * The code from the user's authenticator app.
+     */
+    code: string;
+    /**
+     * Any account of the user whose code to verify. If not given,
+     * the signed-in user's unconfirmed enrollment is confirmed.
+     */
+    accountId?: GenericId<"authAccounts">;
+  },
+): Promise<{ userId: GenericId<"users"> }> {
+  const actionCtx = ctx as unknown as ActionCtx;
+  const result = await callVerifyTOTP(actionCtx, args);
+  if (typeof result === "string") {
+    throw new Error(result);
+  }
+  return result;
+}
+
+/**
+ * Generate one-time recovery codes for the signed-in user,
+ * which can complete an MFA challenge via the `RecoveryCodes` provider
+ * when they lose access to their other factors:
+ *
+ * ```ts filename="convex/mfa.ts"
+ * import { action } from "./_generated/server";
+ * import { generateRecoveryCodes } from "@convex-dev/auth/server";
+ *
+ * export const newRecoveryCodes = action({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     return await generateRecoveryCodes(ctx, { provider: "recovery-code" });
+ *   },
+ * });
+ * ```
+ *
+ * Show the codes to the user once, only their hashes are stored.
+ * Calling this function again invalidates the previous codes.
+ *
+ * Fails with `"ReauthenticationRequired"` `ConvexError` data unless
+ * the user authenticated in the last 5 minutes, and for impersonation
+ * sessions.
+ *
+ * @returns the new codes
+ */
+export async function generateRecoveryCodes<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericActionCtx<DataModel>,
+  args: {
+    /**
+     * The ID of the `RecoveryCodes` provider (like "recovery-code").
+     */
+    provider: string;
+  },
+): Promise<string[]> {
+  const actionCtx = ctx as unknown as ActionCtx;
+  return await callGenerateRecoveryCodes(actionCtx, args);
+}
+
+/**
+ * Use this function from a
+ * [`ConvexCredentials`](https://labs.convex.dev/auth/api_reference/providers/ConvexCredentials)
+ * provider to verify a recovery code. Each code can only be used once.
+ *
+ * @returns the user ID, or throws if the code is invalid
+ * or the user has no recovery codes
+ */
+export async function verifyRecoveryCode<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericActionCtx<DataModel>,
+  args: {
+    /**
+     * The ID of the `RecoveryCodes` provider (like "recovery-code").
+     */
+    provider: string;
+    /**
+     * One of the codes returned by `generateRecoveryCodes`.
+     */
+    code: string;
+    /**
+     * Any account of the user whose code to verify.
+     */
+    accountId: GenericId<"authAccounts">;
+  },
+): Promise<{ userId: GenericId<"users"> }> {
+  const actionCtx = ctx as unknown as ActionCtx;
+  const result = await callVerifyRecoveryCode(actionCtx, args);
+  if (typeof result === "string") {
+    throw new Error(result);
+  }
+  return result;
+}
+
 /**
  * Use this function from a
  * [`ConvexCredentials`](https://labs.convex.dev/auth/api_reference/providers/ConvexCredentials)
@@ -593,7 +957,9 @@ export async function invalidateSessions<
  * for email verification on sign up or password reset).
  *
  * Returns the user ID if the sign can proceed,
- * or `null`.
+ * or `null`. When the user has to complete a second factor
+ * no session is created, signing in via the calling provider
+ * then creates the MFA challenge and returns it to the client.
  */
 export async function signInViaProvider<
   DataModel extends GenericDataModel = GenericDataModel,
@@ -608,12 +974,15 @@ export async function signInViaProvider<
   const result = await signInImpl(ctx, materializeProvider(provider), args, {
     generateTokens: false,
     allowExtraProviders: true,
+    deferMfa: true,
   });
   return result.kind === "signedIn"
     ? result.signedIn !== null
       ? { userId: result.signedIn.userId, sessionId: result.signedIn.sessionId }
       : null
-    : null;
+    : result.kind === "mfaRequired" || result.kind === "mfaDeferred"
+      ? { userId: result.userId, sessionId: undefined }
+      : null;
 }
 
 function convertErrorsToResponse(
@@ -0,0 +1,123 @@
+import { GenericId } from "convex/values";
+import {
+  AuthProviderMaterializedConfig,
+  ConvexAuthConfig,
+  SignInMethod,
+} from "../types.js";
+import { Doc, MutationCtx } from "./types.js";
+import { LOG_LEVELS, logWithLevel } from "./utils.js";
+
+/**
+ * Run the `onSignIn` callback after a session was created.
+ */
+export async function afterSignIn(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  args: {
+    sessionId: GenericId<"authSessions">;
+    provider: string | null;
+    method: SignInMethod;
+  },
+) {
+  const onSignIn = config.callbacks?.onSignIn;
+  if (onSignIn === undefined) {
+    return;
+  }
+  logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onSignIn callback");
+  const session = (await ctx.db.get(args.sessionId))!;
+  const user = (await ctx.db.get(session.userId))!;
+  await onSignIn(ctx, {
+    session,
+    user,
+    provider: args.provider,
+    method: args.method,
+  });
+}
+
+/**
+ * Run the `onSignOut` callback after the session was deleted.
+ */
+export async function afterSignOut(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  session: Doc<"authSessions">,
+) {
+  const onSignOut = config.callbacks?.onSignOut;
+  if (onSignOut === undefined) {
+    return;
+  }
+  logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onSignOut callback");
+  const user = (await ctx.db.get(session.userId))!;
+  await onSignOut(ctx, { session, user });
+}
+
+/**
+ * Run the `onSessionRefreshed` callback after new tokens were issued.
+ */
+export async function afterSessionRefreshed(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  sessionId: GenericId<"authSessions">,
+) {
+  const onSessionRefreshed = config.callbacks?.onSessionRefreshed;
+  if (onSessionRefreshed === undefined) {
+    return;
+  }
+  logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onSessionRefreshed callback");
+  const session = (await ctx.db.get(sessionId))!;
+  const user = (await ctx.db.get(session.userId))!;
+  await onSessionRefreshed(ctx, { session, user });
+}
+
+/**
+ * Run the `onSignInFailed` callback after invalid credentials
+ * or an invalid verification code were provided.
+ */
+export async function afterSignInFailed(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  args: {
+    userId: GenericId<"users"> | null;
+    provider: string | null;
+    method: SignInMethod | null;
+  },
+) {
+  const onSignInFailed = config.callbacks?.onSignInFailed;
+  if (onSignInFailed === undefined) {
+    return;
+  }
+  logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onSignInFailed callback");
+  const user = args.userId !== null ? await ctx.db.get(args.userId) : null;
+  await onSignInFailed(ctx, {
+    user,
+    provider: args.provider,
+    method: args.method,
+  });
+}
+
+/**
+ * Run the `onRecoveryCodeUsed` callback after a recovery code
+ * was used to complete an MFA challenge.
+ */
+export async function afterRecoveryCodeUsed(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  args: { userId: GenericId<"users">; codesLeft: number },
+) {
+  const onRecoveryCodeUsed = config.callbacks?.onRecoveryCodeUsed;
+  if (onRecoveryCodeUsed === undefined) {
+    return;
+  }
+  logWithLevel(LOG_LEVELS.DEBUG, "Calling custom onRecoveryCodeUsed callback");
+  const user = (await ctx.db.get(args.userId))!;
+  await onRecoveryCodeUsed(ctx, { user, codesLeft: args.codesLeft });
+}
+
+/**
+ * The sign-in method corresponding to the given provider.
+ */
+export function signInMethod(
+  provider: AuthProviderMaterializedConfig,
+): SignInMethod {
+  return provider.type === "oidc" ? "oauth" : provider.type;
+}
@@ -0,0 +1,197 @@
+import { ConvexError, GenericId } from "convex/values";
+import { ConvexAuthConfig } from "../types.js";
+import { Doc, MutationCtx } from "./types.js";
+import * as Provider from "./provider.js";
+import { getAuthSessionId } from "./sessions.js";
+import { isTOTPProvider } from "./totp.js";
+import { LOG_LEVELS, logWithLevel } from "./utils.js";
+
+const DEFAULT_CHALLENGE_DURATION_MS = 1000 * 60 * 5; // 5 minutes
+
+/**
+ * Returned instead of a session when the user has to complete
+ * a second factor.
+ */
+export type MfaRequired = {
+  userId: GenericId<"users">;
+  mfaRequired: { challenge: string; factors: string[] };
+};
+
+/**
+ * Returned instead of a session by the sign-in steps run via
+ * `signInViaProvider` when the user has to complete a second factor.
+ * The calling provider's sign-in then creates the challenge.
+ */
+export type MfaDeferred = {
+  userId: GenericId<"users">;
+  mfaDeferred: true;
+};
+
+/**
+ * Called after the first factor was verified, before a new session
+ * is created for the user.
+ *
+ * @returns a new challenge if the user has to complete a second factor,
+ *          `null` otherwise
+ */
+export async function maybeRequireMfa(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  args: {
+    userId: GenericId<"users">;
+    provider?: string;
+    sessionDuration?: string;
+  },
+): Promise<MfaRequired | null> {
+  const { userId, sessionDuration } = args;
+  const factors = await requiredMfaFactors(
+    ctx,
+    config,
+    getProviderOrThrow,
+    args,
+  );
+  if (factors === null) {
+    return null;
+  }
+  const challenge = await ctx.db.insert("authVerifiers", {
+    userId,
+    sessionDuration,
+  });
+  logWithLevel(LOG_LEVELS.DEBUG, `Second factor required for user ${userId}`);
+  return { userId, mfaRequired: { challenge, factors } };
+}
+
+/**
+ * Like {@link maybeRequireMfa}, but leaves creating the challenge
+ * to the provider which called `signInViaProvider`, so that only
+ * one challenge is created per sign-in.
+ */
+export async function maybeDeferMfa(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  args: { userId: GenericId<"users">; provider?: string },
+): Promise<MfaDeferred | null> {
+  const factors = await requiredMfaFactors(
+    ctx,
+    config,
+    getProviderOrThrow,
+    args,
+  );
+  return factors !== null ? { userId: args.userId, mfaDeferred: true } : null;
+}
+
+/**
+ * @returns the factors the user can complete if they have to complete
+ *          a second factor, `null` otherwise
+ */
+async function requiredMfaFactors(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  args: { userId: GenericId<"users">; provider?: string },
+) {
+  if (config.mfa === undefined) {
+    return null;
+  }
+  const { userId } = args;
+  // The current session was created after checking all required factors.
+  const sessionId = await getAuthSessionId(ctx);
+  if (sessionId !== null && (await ctx.db.get(sessionId))?.userId === userId) {
+    return null;
+  }
+  // The factor used to sign in doesn't count as the second one.
+  const factors = (
+    await enrolledMfaFactors(ctx, config, getProviderOrThrow, userId)
+  ).filter((factor) => factor !== args.provider);
+  const required = config.mfa.required;
+  const isRequired =
+    typeof required === "function"
+      ? await required(ctx, { userId, factors })
+      : required ?? factors.length > 0;
+  return isRequired ? factors : null;
+}
+
+/**
+ * Check that the challenge can be completed via the given provider.
+ */
+export async function getMfaChallenge(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  args: { mfaChallenge: string; provider: string },
+) {
+  if (!config.mfa?.factors.includes(args.provider)) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      `Provider ${args.provider} is not configured as a second factor`,
+    );
+    throw new ConvexError("InvalidMfaChallenge");
+  }
+  const verifierId = ctx.db.normalizeId("authVerifiers", args.mfaChallenge);
+  const challenge = verifierId !== null ? await ctx.db.get(verifierId) : null;
+  if (challenge === null || challenge.userId === undefined) {
+    logWithLevel(LOG_LEVELS.ERROR, "Invalid MFA challenge");
+    throw new ConvexError("InvalidMfaChallenge");
+  }
+  const duration =
+    config.mfa.challengeDurationMs ?? DEFAULT_CHALLENGE_DURATION_MS;
+  if (challenge._creationTime + duration < Date.now()) {
+    logWithLevel(LOG_LEVELS.ERROR, "Expired MFA challenge");
+    throw new ConvexError("InvalidMfaChallenge");
+  }
+  return challenge as Doc<"authVerifiers"> & { userId: GenericId<"users"> };
+}
+
+/**
+ * Called after the second factor was verified, each challenge
+ * can be completed once.
+ *
+ * @returns the challenge, which carries the session options
+ *          passed with the first factor
+ */
+export async function completeMfaChallenge(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  args: { mfaChallenge: string; provider: string; userId: GenericId<"users"> },
+) {
+  const challenge = await getMfaChallenge(ctx, config, args);
+  if (challenge.userId !== args.userId) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      "The second factor belongs to a different user than the MFA challenge",
+    );
+    throw new ConvexError("InvalidMfaChallenge");
+  }
+  await ctx.db.delete(challenge._id);
+  return challenge;
+}
+
+/**
+ * The `mfa.factors` providers the user has an account with.
+ * TOTP enrollments count once they are confirmed.
+ */
+async function enrolledMfaFactors(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  userId: GenericId<"users">,
+) {
+  const factors: string[] = [];
+  for (const factor of config.mfa?.factors ?? []) {
+    const account = await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) =>
+        q.eq("userId", userId).eq("provider", factor),
+      )
+      .first();
+    const provider = getProviderOrThrow(factor);
+    if (
+      account !== null &&
+      !(isTOTPProvider(provider) && account.counter === undefined)
+    ) {
+      factors.push(factor);
+    }
+  }
+  return factors;
+}
@@ -5,6 +5,10 @@ import { EmailConfig, PhoneConfig } from "../../types.js";
 import { getAccountOrThrow, upsertUserAndAccount } from "../users.js";
 import { getAuthSessionId } from "../sessions.js";
 import { LOG_LEVELS, logWithLevel, sha256 } from "../utils.js";
+import {
+  changedIdentifier,
+  startIdentifierChange,
+} from "../identifierChange.js";
 
 export const createVerificationCodeArgs = v.object({
   accountId: v.optional(v.id("authAccounts")),
@@ -12,8 +16,13 @@ export const createVerificationCodeArgs = v.object({
   email: v.optional(v.string()),
   phone: v.optional(v.string()),
   code: v.string(),
+  otp: v.optional(v.string()),
   expirationTime: v.number(),
   allowExtraProviders: v.boolean(),
+  sessionDuration: v.optional(v.string()),
+  reauthenticate: v.optional(v.boolean()),
+  changeEmail: v.optional(v.boolean()),
+  changePhone: v.optional(v.boolean()),
 });
 
 type ReturnType = string;
@@ -29,11 +38,33 @@ export async function createVerificationCodeImpl(
     email,
     phone,
     code,
+    otp,
     expirationTime,
     provider: providerId,
     accountId: existingAccountId,
     allowExtraProviders,
+    sessionDuration,
+    reauthenticate,
+    changeEmail,
+    changePhone,
   } = args;
+  if (changeEmail || changePhone) {
+    const { accountId, sessionId } = await startIdentifierChange(
+      ctx,
+      changeEmail ? "email" : "phone",
+      providerId,
+      email ?? phone!,
+    );
+    await generateUniqueVerificationCode(
+      ctx,
+      accountId,
+      providerId,
+      code,
+      expirationTime,
+      { otp, email, phone, sessionId, changeEmail, changePhone },
+    );
+    return email ?? phone!;
+  }
   const existingAccount =
     existingAccountId !== undefined
       ? await getAccountOrThrow(ctx, existingAccountId)
@@ -49,9 +80,10 @@ export async function createVerificationCodeImpl(
   const provider = getProviderOrThrow(providerId, allowExtraProviders) as
     | EmailConfig
     | PhoneConfig;
+  const sessionId = await getAuthSessionId(ctx);
   const { accountId } = await upsertUserAndAccount(
     ctx,
-    await getAuthSessionId(ctx),
+    sessionId,
     existingAccount !== null
       ? { existingAccount }
       : { providerAccountId: email ?? phone! },
@@ -66,7 +98,14 @@ export async function createVerificationCodeImpl(
     providerId,
     code,
     expirationTime,
-    { email, phone },
+    {
+      otp,
+      email,
+      phone,
+      sessionDuration,
+      reauthenticate,
+      sessionId: reauthenticate ? sessionId ?? undefined : undefined,
+    },
   );
   return email ?? phone!;
 }
@@ -89,21 +128,50 @@ async function generateUniqueVerificationCode(
   provider: string,
   code: string,
   expirationTime: number,
-  { email, phone }: { email?: string; phone?: string },
+  {
+    otp,
+    email,
+    phone,
+    sessionDuration,
+    reauthenticate,
+    sessionId,
+    changeEmail,
+    changePhone,
+  }: {
+    otp?: string;
+    email?: string;
+    phone?: string;
+    sessionDuration?: string;
+    reauthenticate?: boolean;
+    sessionId?: GenericId<"authSessions">;
+    changeEmail?: boolean;
+    changePhone?: boolean;
+  },
 ) {
-  const existingCode = await ctx.db
+  const existingCodes = await ctx.db
     .query("authVerificationCodes")
     .withIndex("accountId", (q) => q.eq("accountId", accountId))
-    .unique();
-  if (existingCode !== null) {
-    await ctx.db.delete(existingCode._id);
+    .collect();
+  for (const existingCode of existingCodes) {
+    if (
+      changedIdentifier(existingCode) ===
+      changedIdentifier({ changeEmail, changePhone })
+    ) {
+      await ctx.db.delete(existingCode._id);
+    }
   }
   await ctx.db.insert("authVerificationCodes", {
     accountId,
     provider,
     code: await sha256(code),
+    otp: otp !== undefined ? await sha256(otp) : undefined,
     expirationTime,
     emailVerified: email,
     phoneVerified: phone,
+    sessionDuration,
+    reauthenticate,
+    sessionId,
+    changeEmail,
+    changePhone,
   });
 }
@@ -0,0 +1,79 @@
+import { Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import {
+  RECENT_AUTH_MAX_AGE_MS,
+  getAuthSessionId,
+  requireRecentAuth,
+} from "../sessions.js";
+import {
+  createTOTPUri,
+  encodeTOTPSecret,
+  encryptTOTPSecret,
+  generateTOTPSecret,
+  getTOTPOptions,
+} from "../totp.js";
+import * as Provider from "../provider.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const enrollTOTPArgs = v.object({
+  provider: v.string(),
+});
+
+type ReturnType = { secret: string; uri: string };
+
+export async function enrollTOTPImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof enrollTOTPArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+): Promise<ReturnType> {
+  const { provider: providerId } = args;
+  const options = getTOTPOptions(getProviderOrThrow(providerId, true));
+  const sessionId = await getAuthSessionId(ctx);
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (session === null) {
+    throw new Error("Cannot enroll in TOTP without being signed in");
+  }
+  // Also rejects impersonators
+  await requireRecentAuth(ctx, RECENT_AUTH_MAX_AGE_MS);
+  const { userId } = session;
+  const existingAccount = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", providerId),
+    )
+    .unique();
+  if (existingAccount !== null) {
+    if (existingAccount.counter !== undefined) {
+      throw new Error(
+        `User ${userId} is already enrolled in TOTP via provider ${providerId}`,
+      );
+    }
+    // Restarting the enrollment replaces the unconfirmed secret
+    await ctx.db.delete(existingAccount._id);
+  }
+  const secret = generateTOTPSecret();
+  await ctx.db.insert("authAccounts", {
+    userId,
+    provider: providerId,
+    providerAccountId: userId,
+    secret: await encryptTOTPSecret(options, secret),
+  });
+  logWithLevel(LOG_LEVELS.DEBUG, `Started TOTP enrollment for user ${userId}`);
+  const user = await ctx.db.get(userId);
+  return {
+    secret: encodeTOTPSecret(secret),
+    uri: createTOTPUri(options, user?.email ?? user?.phone ?? userId, secret),
+  };
+}
+
+export const callEnrollTOTP = async (
+  ctx: ActionCtx,
+  args: Infer<typeof enrollTOTPArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "enrollTOTP",
+      ...args,
+    },
+  });
+};
@@ -0,0 +1,86 @@
+import { Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import {
+  RECENT_AUTH_MAX_AGE_MS,
+  getAuthSessionId,
+  requireRecentAuth,
+} from "../sessions.js";
+import {
+  generateRecoveryCodes,
+  getRecoveryCodesOptions,
+  hashRecoveryCode,
+} from "../recoveryCodes.js";
+import { recordAuthEvent } from "../events.js";
+import * as Provider from "../provider.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const generateRecoveryCodesArgs = v.object({
+  provider: v.string(),
+});
+
+type ReturnType = string[];
+
+export async function generateRecoveryCodesImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof generateRecoveryCodesArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  config: Provider.Config,
+): Promise<ReturnType> {
+  const { provider: providerId } = args;
+  const options = getRecoveryCodesOptions(getProviderOrThrow(providerId, true));
+  const sessionId = await getAuthSessionId(ctx);
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (session === null) {
+    throw new Error("Cannot generate recovery codes without being signed in");
+  }
+  // Also rejects impersonators
+  await requireRecentAuth(ctx, RECENT_AUTH_MAX_AGE_MS);
+  const { userId } = session;
+  const existingAccount = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", providerId),
+    )
+    .unique();
+  const accountId =
+    existingAccount?._id ??
+    (await ctx.db.insert("authAccounts", {
+      userId,
+      provider: providerId,
+      providerAccountId: userId,
+    }));
+  // Generating new codes invalidates the previous ones
+  const previousCodes = await ctx.db
+    .query("authRecoveryCodes")
+    .withIndex("accountIdAndCode", (q) => q.eq("accountId", accountId))
+    .collect();
+  for (const previousCode of previousCodes) {
+    await ctx.db.delete(previousCode._id);
+  }
+  const codes = generateRecoveryCodes(options);
+  for (const code of codes) {
+    await ctx.db.insert("authRecoveryCodes", {
+      accountId,
+      code: await hashRecoveryCode(code),
+    });
+  }
+  await recordAuthEvent(ctx, config, {
+    type: "recoveryCodesGenerated",
+    userId,
+    provider: providerId,
+  });
+  logWithLevel(LOG_LEVELS.DEBUG, `Generated recovery codes for user ${userId}`);
+  return codes;
+}
+
+export const callGenerateRecoveryCodes = async (
+  ctx: ActionCtx,
+  args: Infer<typeof generateRecoveryCodesArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "generateRecoveryCodes",
+      ...args,
+    },
+  });
+};
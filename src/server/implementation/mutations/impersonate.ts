@@ -0,0 +1,90 @@
+import { Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx, SessionInfo } from "../types.js";
+import * as Provider from "../provider.js";
+import {
+  createNewAndDeleteExistingSession,
+  getAuthSessionId,
+  maybeGenerateTokensForSession,
+} from "../sessions.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSignIn } from "../lifecycle.js";
+import { throwIfUserDisabled } from "../disableUser.js";
+
+const DEFAULT_IMPERSONATION_DURATION_MS = 1000 * 60 * 60; // 1 hour
+const MAX_IMPERSONATION_DURATION_MS = 1000 * 60 * 60 * 4; // 4 hours
+
+export const impersonateArgs = v.object({
+  userId: v.id("users"),
+  durationMs: v.optional(v.number()),
+  generateTokens: v.boolean(),
+});
+
+type ReturnType = SessionInfo;
+
+export async function impersonateImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof impersonateArgs>,
+  config: Provider.Config,
+): Promise<ReturnType> {
+  logWithLevel(LOG_LEVELS.DEBUG, "impersonateImpl args:", args);
+  const { userId, durationMs, generateTokens } = args;
+  const actorSessionId = await getAuthSessionId(ctx);
+  const actorSession =
+    actorSessionId !== null ? await ctx.db.get(actorSessionId) : null;
+  if (actorSession === null) {
+    throw new Error("Cannot impersonate a user without being signed in");
+  }
+  if (actorSession.impersonatorId !== undefined) {
+    throw new Error("Cannot impersonate a user while impersonating");
+  }
+  if ((await ctx.db.get(userId)) === null) {
+    throw new Error(`Cannot impersonate user ${userId}, it doesn't exist`);
+  }
+  await throwIfUserDisabled(ctx, userId);
+  const impersonatorId = actorSession.userId;
+  // This replaces the impersonator's own session
+  const sessionId = await createNewAndDeleteExistingSession(
+    ctx,
+    config,
+    userId,
+  );
+  await ctx.db.patch(sessionId, {
+    impersonatorId,
+    expirationTime:
+      Date.now() +
+      Math.min(
+        durationMs ?? DEFAULT_IMPERSONATION_DURATION_MS,
+        MAX_IMPERSONATION_DURATION_MS,
+      ),
+  });
+  logWithLevel(
+    LOG_LEVELS.INFO,
+    `User ${impersonatorId} is impersonating user ${userId}`,
+  );
+  await recordAuthEvent(ctx, config, { type: "signedIn", userId, sessionId });
+  await afterSignIn(ctx, config, {
+    sessionId,
+    provider: null,
+    method: "impersonation",
+  });
+  return await maybeGenerateTokensForSession(
+    ctx,
+    config,
+    userId,
+    sessionId,
+    generateTokens,
+  );
+}
+
+export const callImpersonate = async (
+  ctx: ActionCtx,
+  args: Infer<typeof impersonateArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "impersonate",
+      ...args,
+    },
+  });
+};
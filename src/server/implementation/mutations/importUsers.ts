@@ -0,0 +1,112 @@
+import { Infer, v } from "convex/values";
+import { MutationCtx } from "../types.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const importUsersArgs = v.object({
+  users: v.array(
+    v.object({
+      name: v.optional(v.string()),
+      image: v.optional(v.string()),
+      email: v.optional(v.string()),
+      emailVerificationTime: v.optional(v.number()),
+      phone: v.optional(v.string()),
+      phoneVerificationTime: v.optional(v.number()),
+      accounts: v.array(
+        v.object({
+          provider: v.string(),
+          providerAccountId: v.string(),
+          secret: v.optional(v.string()),
+          emailVerified: v.optional(v.string()),
+          phoneVerified: v.optional(v.string()),
+        }),
+      ),
+    }),
+  ),
+  dryRun: v.boolean(),
+});
+
+type ImportUsersConflict = {
+  // Index into `users`
+  index: number;
+  reason: "EmailInUse" | "PhoneInUse" | "AccountInUse";
+};
+
+type ReturnType = {
+  imported: number;
+  conflicts: ImportUsersConflict[];
+};
+
+/**
+ * Insert `users` and `authAccounts` documents exported from
+ * another auth system, used by the `import-users` CLI command.
+ *
+ * Users whose email, phone or accounts already exist are skipped
+ * and reported as conflicts. Account secrets are stored as given,
+ * so that existing password hashes keep working.
+ */
+export async function importUsersImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof importUsersArgs>,
+): Promise<ReturnType> {
+  const conflicts: ImportUsersConflict[] = [];
+  let imported = 0;
+  for (const [index, { accounts, ...user }] of args.users.entries()) {
+    const reason = await findConflict(ctx, user, accounts);
+    if (reason !== null) {
+      conflicts.push({ index, reason });
+      continue;
+    }
+    imported++;
+    if (args.dryRun) {
+      continue;
+    }
+    const userId = await ctx.db.insert("users", user);
+    for (const account of accounts) {
+      await ctx.db.insert("authAccounts", { ...account, userId });
+    }
+  }
+  logWithLevel(
+    LOG_LEVELS.INFO,
+    `${args.dryRun ? "Would import" : "Imported"} ${imported} users, ` +
+      `${conflicts.length} conflicts`,
+  );
+  return { imported, conflicts };
+}
+
+async function findConflict(
+  ctx: MutationCtx,
+  user: { email?: string; phone?: string },
+  accounts: { provider: string; providerAccountId: string }[],
+) {
+  const { email, phone } = user;
+  if (
+    email !== undefined &&
+    (await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", email))
+      .first()) !== null
+  ) {
+    return "EmailInUse" as const;
+  }
+  if (
+    phone !== undefined &&
+    (await ctx.db
+      .query("users")
+      .withIndex("phone", (q) => q.eq("phone", phone))
+      .first()) !== null
+  ) {
+    return "PhoneInUse" as const;
+  }
+  for (const { provider, providerAccountId } of accounts) {
+    const existingAccount = await ctx.db
+      .query("authAccounts")
+      .withIndex("providerAndAccountId", (q) =>
+        q.eq("provider", provider).eq("providerAccountId", providerAccountId),
+      )
+      .first();
+    if (existingAccount !== null) {
+      return "AccountInUse" as const;
+    }
+  }
+  return null;
+}
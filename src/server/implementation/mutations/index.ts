@@ -29,9 +29,36 @@ import {
   invalidateSessionsArgs,
   invalidateSessionsImpl,
 } from "./invalidateSessions.js";
+import { impersonateArgs, impersonateImpl } from "./impersonate.js";
+import { listAccountsImpl } from "./listAccounts.js";
+import { unlinkAccountArgs, unlinkAccountImpl } from "./unlinkAccount.js";
+import { importUsersArgs, importUsersImpl } from "./importUsers.js";
+import { enrollTOTPArgs, enrollTOTPImpl } from "./enrollTOTP.js";
+import { verifyTOTPArgs, verifyTOTPImpl } from "./verifyTOTP.js";
+import { passkeyOptionsArgs, passkeyOptionsImpl } from "./passkeyOptions.js";
+import {
+  verifyPasskeyAndSignInArgs,
+  verifyPasskeyAndSignInImpl,
+} from "./verifyPasskeyAndSignIn.js";
+import {
+  generateRecoveryCodesArgs,
+  generateRecoveryCodesImpl,
+} from "./generateRecoveryCodes.js";
+import {
+  verifyRecoveryCodeArgs,
+  verifyRecoveryCodeImpl,
+} from "./verifyRecoveryCode.js";
+import {
+  mfaChallengeAccountArgs,
+  mfaChallengeAccountImpl,
+} from "./mfaChallengeAccount.js";
+import { deleteUserArgs, deleteUserImpl } from "../deleteUser.js";
 import * as Provider from "../provider.js";
-import { verifierImpl } from "./verifier.js";
+import { verifierArgs, verifierImpl } from "./verifier.js";
 import { LOG_LEVELS, logWithLevel } from "../utils.js";
+export { callUnlinkAccount } from "./unlinkAccount.js";
+export { callListAccounts } from "./listAccounts.js";
+export { callImpersonate } from "./impersonate.js";
 export { callInvalidateSessions } from "./invalidateSessions.js";
 export { callModifyAccount } from "./modifyAccount.js";
 export { callRetreiveAccountWithCredentials } from "./retrieveAccountWithCredentials.js";
@@ -44,6 +71,13 @@ export { callVerifier } from "./verifier.js";
 export { callRefreshSession } from "./refreshSession.js";
 export { callSignOut } from "./signOut.js";
 export { callSignIn } from "./signIn.js";
+export { callEnrollTOTP } from "./enrollTOTP.js";
+export { callVerifyTOTP } from "./verifyTOTP.js";
+export { callPasskeyOptions } from "./passkeyOptions.js";
+export { callVerifyPasskeyAndSignIn } from "./verifyPasskeyAndSignIn.js";
+export { callMfaChallengeAccount } from "./mfaChallengeAccount.js";
+export { callGenerateRecoveryCodes } from "./generateRecoveryCodes.js";
+export { callVerifyRecoveryCode } from "./verifyRecoveryCode.js";
 
 export const storeArgs = v.object({
   args: v.union(
@@ -64,6 +98,7 @@ export const storeArgs = v.object({
     }),
     v.object({
       type: v.literal("verifier"),
+      ...verifierArgs.fields,
     }),
     v.object({
       type: v.literal("verifierSignature"),
@@ -93,6 +128,53 @@ export const storeArgs = v.object({
       type: v.literal("invalidateSessions"),
       ...invalidateSessionsArgs.fields,
     }),
+    v.object({
+      type: v.literal("impersonate"),
+      ...impersonateArgs.fields,
+    }),
+    v.object({
+      type: v.literal("listAccounts"),
+    }),
+    v.object({
+      type: v.literal("unlinkAccount"),
+      ...unlinkAccountArgs.fields,
+    }),
+    v.object({
+      type: v.literal("deleteUser"),
+      ...deleteUserArgs.fields,
+    }),
+    v.object({
+      type: v.literal("importUsers"),
+      ...importUsersArgs.fields,
+    }),
+    v.object({
+      type: v.literal("enrollTOTP"),
+      ...enrollTOTPArgs.fields,
+    }),
+    v.object({
+      type: v.literal("verifyTOTP"),
+      ...verifyTOTPArgs.fields,
+    }),
+    v.object({
+      type: v.literal("passkeyOptions"),
+      ...passkeyOptionsArgs.fields,
+    }),
+    v.object({
+      type: v.literal("verifyPasskeyAndSignIn"),
+      ...verifyPasskeyAndSignInArgs.fields,
+    }),
+    v.object({
+      type: v.literal("mfaChallengeAccount"),
+      ...mfaChallengeAccountArgs.fields,
+    }),
+    v.object({
+      type: v.literal("generateRecoveryCodes"),
+      ...generateRecoveryCodesArgs.fields,
+    }),
+    v.object({
+      type: v.literal("verifyRecoveryCode"),
+      ...verifyRecoveryCodeArgs.fields,
+    }),
   ),
 });
 
@@ -106,10 +188,10 @@ export const storeImpl = async (
   logWithLevel(LOG_LEVELS.INFO, `\`auth:store\` type: ${args.type}`);
   switch (args.type) {
     case "signIn": {
-      return signInImpl(ctx, args, config);
+      return signInImpl(ctx, args, getProviderOrThrow, config);
     }
     case "signOut": {
-      return signOutImpl(ctx);
+      return signOutImpl(ctx, config);
     }
     case "refreshSession": {
       return refreshSessionImpl(ctx, args, getProviderOrThrow, config);
@@ -118,7 +200,7 @@ export const storeImpl = async (
       return verifyCodeAndSignInImpl(ctx, args, getProviderOrThrow, config);
     }
     case "verifier": {
-      return verifierImpl(ctx);
+      return verifierImpl(ctx, args);
     }
     case "verifierSignature": {
       return verifierSignatureImpl(ctx, args);
@@ -146,10 +228,46 @@ export const storeImpl = async (
       );
     }
     case "modifyAccount": {
-      return modifyAccountImpl(ctx, args, getProviderOrThrow);
+      return modifyAccountImpl(ctx, args, getProviderOrThrow, config);
     }
     case "invalidateSessions": {
-      return invalidateSessionsImpl(ctx, args);
+      return invalidateSessionsImpl(ctx, args, config);
+    }
+    case "impersonate": {
+      return impersonateImpl(ctx, args, config);
+    }
+    case "listAccounts": {
+      return listAccountsImpl(ctx);
+    }
+    case "unlinkAccount": {
+      return unlinkAccountImpl(ctx, args, config);
+    }
+    case "deleteUser": {
+      return deleteUserImpl(ctx, args);
+    }
+    case "importUsers": {
+      return importUsersImpl(ctx, args);
+    }
+    case "enrollTOTP": {
+      return enrollTOTPImpl(ctx, args, getProviderOrThrow);
+    }
+    case "verifyTOTP": {
+      return verifyTOTPImpl(ctx, args, getProviderOrThrow, config);
+    }
+    case "passkeyOptions": {
+      return passkeyOptionsImpl(ctx, args, getProviderOrThrow);
+    }
+    case "verifyPasskeyAndSignIn": {
+      return verifyPasskeyAndSignInImpl(ctx, args, getProviderOrThrow, config);
+    }
+    case "mfaChallengeAccount": {
+      return mfaChallengeAccountImpl(ctx, args, config);
+    }
+    case "generateRecoveryCodes": {
+      return generateRecoveryCodesImpl(ctx, args, getProviderOrThrow, config);
+    }
+    case "verifyRecoveryCode": {
+      return verifyRecoveryCodeImpl(ctx, args, getProviderOrThrow, config);
     }
     default:
       args satisfies never;
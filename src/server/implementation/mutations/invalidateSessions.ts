@@ -2,6 +2,8 @@ import { Infer, v } from "convex/values";
 import { deleteSession } from "../sessions.js";
 import { ActionCtx, MutationCtx } from "../types.js";
 import { LOG_LEVELS, logWithLevel } from "../utils.js";
+import { recordAuthEvent } from "../events.js";
+import * as Provider from "../provider.js";
 
 export const invalidateSessionsArgs = v.object({
   userId: v.id("users"),
@@ -23,6 +25,7 @@ export const callInvalidateSessions = async (
 export const invalidateSessionsImpl = async (
   ctx: MutationCtx,
   args: Infer<typeof invalidateSessionsArgs>,
+  config: Provider.Config,
 ): Promise<void> => {
   logWithLevel(LOG_LEVELS.DEBUG, "invalidateSessionsImpl args:", args);
   const { userId, except } = args;
@@ -34,6 +37,11 @@ export const invalidateSessionsImpl = async (
   for (const session of sessions) {
     if (!exceptSet.has(session._id)) {
       await deleteSession(ctx, session);
+      await recordAuthEvent(ctx, config, {
+        type: "sessionInvalidated",
+        userId,
+        sessionId: session._id,
+      });
     }
   }
   return;
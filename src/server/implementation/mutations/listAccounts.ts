@@ -0,0 +1,30 @@
+import { GenericId } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import { listAccounts } from "../accounts.js";
+import { getAuthSessionId } from "../sessions.js";
+
+type ReturnType = {
+  accountId: GenericId<"authAccounts">;
+  provider: string;
+  providerAccountId: string;
+  emailVerified: string | null;
+  phoneVerified: string | null;
+  creationTime: number;
+}[];
+
+export async function listAccountsImpl(ctx: MutationCtx): Promise<ReturnType> {
+  const sessionId = await getAuthSessionId(ctx);
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (session === null) {
+    throw new Error("Cannot list accounts without being signed in");
+  }
+  return await listAccounts(ctx, session.userId);
+}
+
+export const callListAccounts = async (ctx: ActionCtx): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "listAccounts",
+    },
+  });
+};
@@ -0,0 +1,49 @@
+import { GenericId, Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import * as Provider from "../provider.js";
+import { getMfaChallenge } from "../mfa.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const mfaChallengeAccountArgs = v.object({
+  mfaChallenge: v.string(),
+  provider: v.string(),
+});
+
+type ReturnType = {
+  accountId: GenericId<"authAccounts">;
+  providerAccountId: string;
+};
+
+export async function mfaChallengeAccountImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof mfaChallengeAccountArgs>,
+  config: Provider.Config,
+): Promise<ReturnType> {
+  logWithLevel(LOG_LEVELS.DEBUG, "mfaChallengeAccountImpl args:", args);
+  const { userId } = await getMfaChallenge(ctx, config, args);
+  const account = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", args.provider),
+    )
+    .first();
+  if (account === null) {
+    throw new Error(`The user is not enrolled in provider ${args.provider}`);
+  }
+  return {
+    accountId: account._id,
+    providerAccountId: account.providerAccountId,
+  };
+}
+
+export const callMfaChallengeAccount = async (
+  ctx: ActionCtx,
+  args: Infer<typeof mfaChallengeAccountArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "mfaChallengeAccount",
+      ...args,
+    },
+  });
+};
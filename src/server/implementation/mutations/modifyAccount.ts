@@ -1,7 +1,8 @@
 import { Infer, v } from "convex/values";
 import { ActionCtx, MutationCtx } from "../types.js";
-import { GetProviderOrThrowFunc, hash } from "../provider.js";
+import { Config, GetProviderOrThrowFunc, hash } from "../provider.js";
 import { LOG_LEVELS, logWithLevel, maybeRedact } from "../utils.js";
+import { recordAuthEvent } from "../events.js";
 
 export const modifyAccountArgs = v.object({
   provider: v.string(),
@@ -12,6 +13,7 @@ export async function modifyAccountImpl(
   ctx: MutationCtx,
   args: Infer<typeof modifyAccountArgs>,
   getProviderOrThrow: GetProviderOrThrowFunc,
+  config: Config,
 ): Promise<void> {
   const { provider, account } = args;
   logWithLevel(LOG_LEVELS.DEBUG, "retrieveAccountWithCredentialsImpl args:", {
@@ -35,6 +37,11 @@ export async function modifyAccountImpl(
   await ctx.db.patch(existingAccount._id, {
     secret: await hash(getProviderOrThrow(provider), account.secret),
   });
+  await recordAuthEvent(ctx, config, {
+    type: "passwordChanged",
+    userId: existingAccount.userId,
+    provider,
+  });
   return;
 }
 
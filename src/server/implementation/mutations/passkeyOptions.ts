@@ -0,0 +1,86 @@
+import { Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import { getAuthSessionId } from "../sessions.js";
+import {
+  generatePasskeyChallenge,
+  passkeyAuthenticationOptions,
+  passkeyRegistrationOptions,
+} from "../passkeys.js";
+import { PasskeyConfig } from "../../types.js";
+import * as Provider from "../provider.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const passkeyOptionsArgs = v.object({
+  provider: v.string(),
+  flow: v.union(v.literal("register"), v.literal("signIn")),
+  // Shown by the browser for a new user registering a passkey
+  userName: v.optional(v.string()),
+});
+
+type ReturnType = { verifier: string; options: Record<string, any> };
+
+export async function passkeyOptionsImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof passkeyOptionsArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+): Promise<ReturnType> {
+  logWithLevel(LOG_LEVELS.DEBUG, "passkeyOptionsImpl args:", args);
+  const { provider: providerId, flow } = args;
+  const provider = getProviderOrThrow(providerId) as PasskeyConfig;
+  const challenge = generatePasskeyChallenge();
+  const sessionId = await getAuthSessionId(ctx);
+  const verifier = await ctx.db.insert("authVerifiers", {
+    sessionId: sessionId ?? undefined,
+    challenge,
+  });
+  if (flow === "signIn") {
+    return {
+      verifier,
+      options: passkeyAuthenticationOptions(provider, { challenge }),
+    };
+  }
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (session === null) {
+    return {
+      verifier,
+      options: passkeyRegistrationOptions(provider, {
+        challenge,
+        userId: null,
+        userName: args.userName ?? "",
+        excludeCredentialIds: [],
+      }),
+    };
+  }
+  // Signed-in users add another passkey to their account
+  const { userId } = session;
+  const user = await ctx.db.get(userId);
+  const passkeys = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", providerId),
+    )
+    .collect();
+  return {
+    verifier,
+    options: passkeyRegistrationOptions(provider, {
+      challenge,
+      userId,
+      userName: user?.email ?? user?.phone ?? user?.name ?? args.userName ?? "",
+      excludeCredentialIds: passkeys.map(
+        (account) => account.providerAccountId,
+      ),
+    }),
+  };
+}
+
+export const callPasskeyOptions = async (
+  ctx: ActionCtx,
+  args: Infer<typeof passkeyOptionsArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "passkeyOptions",
+      ...args,
+    },
+  });
+};
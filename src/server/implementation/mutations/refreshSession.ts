@@ -4,6 +4,9 @@ import * as Provider from "../provider.js";
 import { REFRESH_TOKEN_DIVIDER, logWithLevel } from "../utils.js";
 import { deleteRefreshTokens, validateRefreshToken } from "../refreshTokens.js";
 import { generateTokensForSession } from "../sessions.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSessionRefreshed } from "../lifecycle.js";
+import { isUserDisabled } from "../disableUser.js";
 
 export const refreshSessionArgs = v.object({
   refreshToken: v.string(),
@@ -30,6 +33,18 @@ export async function refreshSessionImpl(
     refreshTokenId,
     tokenSessionId,
   );
+  // Using a refresh token replaces it with a new one, so a token
+  // that no longer exists while the session has a live replacement
+  // has already been used, which suggests it was stolen. Tokens
+  // deleted by cleanup after expiring have no replacement.
+  const isReused =
+    validationResult === null &&
+    (await ctx.db.get(refreshTokenId as GenericId<"authRefreshTokens">)) ===
+      null &&
+    (await hasLiveRefreshToken(
+      ctx,
+      tokenSessionId as GenericId<"authSessions">,
+    ));
   // This invalidates all other refresh tokens for this session,
   // including ones created later, regardless of whether
   // the passed one is valid or not.
@@ -43,13 +58,42 @@ export async function refreshSessionImpl(
     );
     if (session !== null) {
       await ctx.db.delete(session._id);
+      if (isReused) {
+        await recordAuthEvent(ctx, config, {
+          type: "refreshTokenReused",
+          userId: session.userId,
+          sessionId: session._id,
+        });
+      }
     }
     return null;
   }
   const { session } = validationResult;
   const sessionId = session._id;
   const userId = session.userId;
-  return await generateTokensForSession(ctx, config, userId, sessionId);
+  // Sessions are deleted when the user is disabled, this covers
+  // sessions created concurrently.
+  if (await isUserDisabled(ctx, userId)) {
+    await ctx.db.delete(sessionId);
+    return null;
+  }
+  await ctx.db.patch(sessionId, { lastRefreshTime: Date.now() });
+  const tokens = await generateTokensForSession(ctx, config, userId, sessionId);
+  await afterSessionRefreshed(ctx, config, sessionId);
+  return tokens;
+}
+
+async function hasLiveRefreshToken(
+  ctx: MutationCtx,
+  sessionId: GenericId<"authSessions">,
+) {
+  const refreshTokens = await ctx.db
+    .query("authRefreshTokens")
+    .withIndex("sessionId", (q) => q.eq("sessionId", sessionId))
+    .collect();
+  return refreshTokens.some(
+    (refreshToken) => refreshToken.expirationTime >= Date.now(),
+  );
 }
 
 export const callRefreshSession = async (
@@ -6,6 +6,9 @@ import {
   resetSignInRateLimit,
 } from "../rateLimit.js";
 import * as Provider from "../provider.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSignInFailed } from "../lifecycle.js";
+import { throwIfUserDisabled } from "../disableUser.js";
 import { LOG_LEVELS, logWithLevel, maybeRedact } from "../utils.js";
 
 export const retrieveAccountWithCredentialsArgs = v.object({
@@ -46,18 +49,38 @@ export async function retrieveAccountWithCredentialsImpl(
     if (await isSignInRateLimited(ctx, existingAccount._id, config)) {
       return "TooManyFailedAttempts";
     }
-    if (
-      !(await Provider.verify(
-        getProviderOrThrow(providerId),
-        account.secret,
-        existingAccount.secret ?? "",
-      ))
-    ) {
-      await recordFailedSignIn(ctx, existingAccount._id, config);
+    const provider = getProviderOrThrow(providerId);
+    const { valid, needsRehash } = await Provider.verifyAndCheckRehash(
+      provider,
+      account.secret,
+      existingAccount.secret ?? "",
+    );
+    if (!valid) {
+      const event = { userId: existingAccount.userId, provider: providerId };
+      await recordAuthEvent(ctx, config, { type: "signInFailed", ...event });
+      await afterSignInFailed(ctx, config, {
+        ...event,
+        method: "credentials",
+      });
+      if (await recordFailedSignIn(ctx, existingAccount._id, config)) {
+        await recordAuthEvent(ctx, config, { type: "lockedOut", ...event });
+      }
       return "InvalidSecret";
     }
     await resetSignInRateLimit(ctx, existingAccount._id);
+    if (needsRehash) {
+      logWithLevel(
+        LOG_LEVELS.DEBUG,
+        `Re-hashing secret of account ${existingAccount._id}`,
+      );
+      await ctx.db.patch(existingAccount._id, {
+        secret: await Provider.hash(provider, account.secret),
+      });
+    }
   }
+  // Checked after the secret so that the account's status
+  // isn't revealed without valid credentials.
+  await throwIfUserDisabled(ctx, existingAccount.userId);
   return {
     account: existingAccount,
     // TODO: Ian removed this
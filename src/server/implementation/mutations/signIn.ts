@@ -4,27 +4,121 @@ import * as Provider from "../provider.js";
 import {
   createNewAndDeleteExistingSession,
   maybeGenerateTokensForSession,
+  reauthenticateCurrentSession,
+  sessionDurationFields,
+  sessionMetadataArgs,
 } from "../sessions.js";
 import { LOG_LEVELS, logWithLevel } from "../utils.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSignIn } from "../lifecycle.js";
+import { throwIfUserDisabled } from "../disableUser.js";
+import {
+  completeMfaChallenge,
+  MfaDeferred,
+  MfaRequired,
+  maybeDeferMfa,
+  maybeRequireMfa,
+} from "../mfa.js";
 
 export const signInArgs = v.object({
   userId: v.id("users"),
   sessionId: v.optional(v.id("authSessions")),
+  provider: v.optional(v.string()),
   generateTokens: v.boolean(),
+  metadata: v.optional(sessionMetadataArgs),
+  sessionDuration: v.optional(v.string()),
+  reauthenticate: v.optional(v.boolean()),
+  mfaChallenge: v.optional(v.string()),
+  deferMfa: v.optional(v.boolean()),
 });
 
-type ReturnType = SessionInfo;
+type ReturnType = SessionInfo | MfaRequired | MfaDeferred;
 
 export async function signInImpl(
   ctx: MutationCtx,
   args: Infer<typeof signInArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
   config: Provider.Config,
 ): Promise<ReturnType> {
   logWithLevel(LOG_LEVELS.DEBUG, "signInImpl args:", args);
-  const { userId, sessionId: existingSessionId, generateTokens } = args;
-  const sessionId =
-    existingSessionId ??
-    (await createNewAndDeleteExistingSession(ctx, config, userId));
+  const {
+    userId,
+    sessionId: existingSessionId,
+    provider,
+    generateTokens,
+    metadata,
+    sessionDuration,
+    reauthenticate,
+    mfaChallenge,
+    deferMfa,
+  } = args;
+  await throwIfUserDisabled(ctx, userId);
+  // The session might have been created via `signInViaProvider`,
+  // which doesn't know about the client metadata.
+  if (existingSessionId !== undefined && metadata !== undefined) {
+    await ctx.db.patch(existingSessionId, metadata);
+  }
+  // Impersonation sessions keep their short lifetime.
+  if (
+    existingSessionId !== undefined &&
+    sessionDuration !== undefined &&
+    (await ctx.db.get(existingSessionId))?.impersonatorId === undefined
+  ) {
+    await ctx.db.patch(
+      existingSessionId,
+      sessionDurationFields(config, sessionDuration),
+    );
+  }
+  let sessionId = existingSessionId;
+  // Sessions passed in have been recorded when they were created.
+  if (sessionId === undefined) {
+    let challengeSessionDuration: string | undefined;
+    if (mfaChallenge !== undefined) {
+      ({ sessionDuration: challengeSessionDuration } =
+        await completeMfaChallenge(ctx, config, {
+          mfaChallenge,
+          provider: provider!,
+          userId,
+        }));
+    } else if (!reauthenticate) {
+      const mfaRequired = deferMfa
+        ? await maybeDeferMfa(ctx, config, getProviderOrThrow, {
+            userId,
+            provider,
+          })
+        : await maybeRequireMfa(ctx, config, getProviderOrThrow, {
+            userId,
+            provider,
+            sessionDuration,
+          });
+      if (mfaRequired !== null) {
+        return mfaRequired;
+      }
+    }
+    sessionId = reauthenticate
+      ? await reauthenticateCurrentSession(ctx, userId)
+      : await createNewAndDeleteExistingSession(
+          ctx,
+          config,
+          userId,
+          metadata,
+          sessionDuration ?? challengeSessionDuration,
+        );
+    await recordAuthEvent(ctx, config, {
+      type: "signedIn",
+      userId,
+      sessionId,
+      provider,
+    });
+    if (!reauthenticate) {
+      // Only `ConvexCredentials` providers sign in via this mutation
+      await afterSignIn(ctx, config, {
+        sessionId,
+        provider: provider ?? null,
+        method: "credentials",
+      });
+    }
+  }
   return await maybeGenerateTokensForSession(
     ctx,
     config,
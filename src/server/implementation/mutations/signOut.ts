@@ -1,18 +1,30 @@
 import { GenericId } from "convex/values";
 import { ActionCtx, MutationCtx } from "../types.js";
 import { deleteSession, getAuthSessionId } from "../sessions.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSignOut } from "../lifecycle.js";
+import { ConvexAuthConfig } from "../../types.js";
 
 type ReturnType = {
   userId: GenericId<"users">;
   sessionId: GenericId<"authSessions">;
 } | null;
 
-export async function signOutImpl(ctx: MutationCtx): Promise<ReturnType> {
+export async function signOutImpl(
+  ctx: MutationCtx,
+  config: ConvexAuthConfig,
+): Promise<ReturnType> {
   const sessionId = await getAuthSessionId(ctx);
   if (sessionId !== null) {
     const session = await ctx.db.get(sessionId);
     if (session !== null) {
       await deleteSession(ctx, session);
+      await recordAuthEvent(ctx, config, {
+        type: "signedOut",
+        userId: session.userId,
+        sessionId: session._id,
+      });
+      await afterSignOut(ctx, config, session);
       return { userId: session.userId, sessionId: session._id };
     }
   }
@@ -0,0 +1,48 @@
+import { Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import * as Provider from "../provider.js";
+import { unlinkAccount } from "../accounts.js";
+import {
+  RECENT_AUTH_MAX_AGE_MS,
+  getAuthSessionId,
+  requireRecentAuth,
+} from "../sessions.js";
+
+export const unlinkAccountArgs = v.object({
+  accountId: v.id("authAccounts"),
+});
+
+export async function unlinkAccountImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof unlinkAccountArgs>,
+  config: Provider.Config,
+): Promise<void> {
+  const sessionId = await getAuthSessionId(ctx);
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (session === null) {
+    throw new Error("Cannot unlink an account without being signed in");
+  }
+  const factors = config.mfa?.factors ?? [];
+  const account = await ctx.db.get(args.accountId);
+  // Removing a second factor weakens the user's sign-in.
+  if (account !== null && factors.includes(account.provider)) {
+    await requireRecentAuth(ctx, RECENT_AUTH_MAX_AGE_MS);
+  }
+  await unlinkAccount(ctx, {
+    userId: session.userId,
+    accountId: args.accountId,
+    factors,
+  });
+}
+
+export const callUnlinkAccount = async (
+  ctx: ActionCtx,
+  args: Infer<typeof unlinkAccountArgs>,
+): Promise<void> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "unlinkAccount",
+      ...args,
+    },
+  });
+};
@@ -3,7 +3,8 @@ import { ActionCtx, MutationCtx } from "../types.js";
 import * as Provider from "../provider.js";
 import { OAuthConfig } from "@auth/core/providers/oauth.js";
 import { upsertUserAndAccount } from "../users.js";
-import { logWithLevel, sha256 } from "../utils.js";
+import { changedIdentifier } from "../identifierChange.js";
+import { LOG_LEVELS, logWithLevel, sha256 } from "../utils.js";
 import { alphabet, generateRandomString } from "oslo/crypto";
 
 const OAUTH_SIGN_IN_EXPIRATION_MS = 1000 * 60 * 2; // 2 minutes
@@ -41,22 +42,49 @@ export async function userOAuthImpl(
     throw new Error("Invalid state");
   }
 
+  // In link mode the account must end up linked to the signed-in user.
+  let linkToUserId;
+  if (verifier.link) {
+    const session =
+      verifier.sessionId !== undefined
+        ? await ctx.db.get(verifier.sessionId)
+        : null;
+    if (session === null) {
+      throw new Error("Cannot link an account without being signed in");
+    }
+    if (existingAccount !== null && existingAccount.userId !== session.userId) {
+      logWithLevel(
+        LOG_LEVELS.ERROR,
+        `The ${provider} account ${providerAccountId} is already linked to ` +
+          `user ${existingAccount.userId}, cannot link it to user ${session.userId}`,
+      );
+      throw new Error(
+        `Cannot link the ${provider} account, ` +
+          `it is already linked to a different user`,
+      );
+    }
+    linkToUserId = session.userId;
+  }
+
   const { accountId } = await upsertUserAndAccount(
     ctx,
     verifier.sessionId ?? null,
     existingAccount !== null ? { existingAccount } : { providerAccountId },
     { type: "oauth", provider: providerConfig, profile },
     config,
+    linkToUserId,
   );
 
   const code = generateRandomString(8, alphabet("0-9"));
   await ctx.db.delete(verifier._id);
-  const existingVerificationCode = await ctx.db
+  const existingVerificationCodes = await ctx.db
     .query("authVerificationCodes")
     .withIndex("accountId", (q) => q.eq("accountId", accountId))
-    .unique();
-  if (existingVerificationCode !== null) {
-    await ctx.db.delete(existingVerificationCode._id);
+    .collect();
+  for (const existingVerificationCode of existingVerificationCodes) {
+    if (changedIdentifier(existingVerificationCode) === null) {
+      await ctx.db.delete(existingVerificationCode._id);
+    }
   }
   await ctx.db.insert("authVerificationCodes", {
     code: await sha256(code),
@@ -66,6 +94,9 @@ export async function userOAuthImpl(
     // The use of a verifier means we don't need an identifier
     // during verification.
     verifier: verifier._id,
+    sessionDuration: verifier.sessionDuration,
+    reauthenticate: verifier.reauthenticate,
+    sessionId: verifier.reauthenticate ? verifier.sessionId : undefined,
   });
   return code;
 }
@@ -1,19 +1,47 @@
-import { GenericId } from "convex/values";
+import { GenericId, Infer, v } from "convex/values";
 import { ActionCtx, MutationCtx } from "../types.js";
 import { getAuthSessionId } from "../sessions.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const verifierArgs = v.object({
+  sessionDuration: v.optional(v.string()),
+  reauthenticate: v.optional(v.boolean()),
+  link: v.optional(v.boolean()),
+});
 
 type ReturnType = GenericId<"authVerifiers">;
 
-export async function verifierImpl(ctx: MutationCtx): Promise<ReturnType> {
+export async function verifierImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof verifierArgs>,
+): Promise<ReturnType> {
+  const sessionId = await getAuthSessionId(ctx);
+  if (
+    args.link &&
+    (sessionId === null || (await ctx.db.get(sessionId)) === null)
+  ) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      "Cannot link an account, the client is not signed in",
+    );
+    throw new Error("Cannot link an account without being signed in");
+  }
   return await ctx.db.insert("authVerifiers", {
-    sessionId: (await getAuthSessionId(ctx)) ?? undefined,
+    sessionId: sessionId ?? undefined,
+    sessionDuration: args.sessionDuration,
+    reauthenticate: args.reauthenticate,
+    link: args.link,
   });
 }
 
-export const callVerifier = async (ctx: ActionCtx): Promise<ReturnType> => {
+export const callVerifier = async (
+  ctx: ActionCtx,
+  args: Infer<typeof verifierArgs>,
+): Promise<ReturnType> => {
   return ctx.runMutation("auth:store" as any, {
     args: {
       type: "verifier",
+      ...args,
     },
   });
 };
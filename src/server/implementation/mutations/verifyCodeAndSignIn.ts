@@ -10,10 +10,26 @@ import {
   createNewAndDeleteExistingSession,
   getAuthSessionId,
   maybeGenerateTokensForSession,
+  reauthenticateCurrentSession,
+  sessionMetadataArgs,
 } from "../sessions.js";
 import { ConvexAuthConfig } from "../../types.js";
 import { LOG_LEVELS, logWithLevel, sha256 } from "../utils.js";
 import { upsertUserAndAccount } from "../users.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSignIn, afterSignInFailed, signInMethod } from "../lifecycle.js";
+import { throwIfUserDisabled } from "../disableUser.js";
+import {
+  changedIdentifier,
+  completeIdentifierChange,
+} from "../identifierChange.js";
+import {
+  completeMfaChallenge,
+  MfaDeferred,
+  MfaRequired,
+  maybeDeferMfa,
+  maybeRequireMfa,
+} from "../mfa.js";
 
 export const verifyCodeAndSignInArgs = v.object({
   params: v.any(),
@@ -21,9 +37,14 @@ export const verifyCodeAndSignInArgs = v.object({
   verifier: v.optional(v.string()),
   generateTokens: v.boolean(),
   allowExtraProviders: v.boolean(),
+  metadata: v.optional(sessionMetadataArgs),
+  sessionDuration: v.optional(v.string()),
+  reauthenticate: v.optional(v.boolean()),
+  mfaChallenge: v.optional(v.string()),
+  deferMfa: v.optional(v.boolean()),
 });
 
-type ReturnType = null | SessionInfo;
+type ReturnType = null | SessionInfo | MfaRequired | MfaDeferred;
 
 export async function verifyCodeAndSignInImpl(
   ctx: MutationCtx,
@@ -38,7 +59,7 @@ export async function verifyCodeAndSignInImpl(
     generateTokens: args.generateTokens,
     allowExtraProviders: args.allowExtraProviders,
   });
-  const { generateTokens, provider, allowExtraProviders } = args;
+  const { generateTokens, provider, allowExtraProviders, metadata } = args;
   const identifier = args.params.email ?? args.params.phone;
   if (identifier !== undefined) {
     if (await isSignInRateLimited(ctx, identifier, config)) {
@@ -58,9 +79,30 @@ export async function verifyCodeAndSignInImpl(
     config,
     await getAuthSessionId(ctx),
   );
-  if (verifyResult === null) {
-    if (identifier !== undefined) {
-      await recordFailedSignIn(ctx, identifier, config);
+  if ("failed" in verifyResult) {
+    const { userId } = verifyResult;
+    await recordAuthEvent(ctx, config, {
+      type: "signInFailed",
+      userId: userId ?? undefined,
+      provider,
+    });
+    await afterSignInFailed(ctx, config, {
+      userId,
+      provider: provider ?? null,
+      method:
+        provider !== undefined
+          ? signInMethod(getProviderOrThrow(provider, allowExtraProviders))
+          : null,
+    });
+    if (
+      identifier !== undefined &&
+      (await recordFailedSignIn(ctx, identifier, config))
+    ) {
+      await recordAuthEvent(ctx, config, {
+        type: "lockedOut",
+        userId: userId ?? undefined,
+        provider,
+      });
     }
     return null;
   }
@@ -68,11 +110,66 @@ export async function verifyCodeAndSignInImpl(
     await resetSignInRateLimit(ctx, identifier);
   }
   const { userId } = verifyResult;
-  const sessionId = await createNewAndDeleteExistingSession(
-    ctx,
-    config,
+  await throwIfUserDisabled(ctx, userId);
+  // Changing the email or phone isn't a sign-in, the session
+  // which started the change stays signed in.
+  if (verifyResult.identifierChanged) {
+    return await maybeGenerateTokensForSession(
+      ctx,
+      config,
+      userId,
+      verifyResult.sessionId!,
+      generateTokens,
+    );
+  }
+  // The options passed when the flow was started apply
+  // unless the client passes new ones.
+  const reauthenticate = args.reauthenticate ?? verifyResult.reauthenticate;
+  let sessionDuration = args.sessionDuration ?? verifyResult.sessionDuration;
+  if (args.mfaChallenge !== undefined) {
+    const challenge = await completeMfaChallenge(ctx, config, {
+      mfaChallenge: args.mfaChallenge,
+      provider: verifyResult.provider,
+      userId,
+    });
+    sessionDuration = args.sessionDuration ?? challenge.sessionDuration;
+  } else if (!reauthenticate) {
+    const mfaRequired = args.deferMfa
+      ? await maybeDeferMfa(ctx, config, getProviderOrThrow, {
+          userId,
+          provider: verifyResult.provider,
+        })
+      : await maybeRequireMfa(ctx, config, getProviderOrThrow, {
+          userId,
+          provider: verifyResult.provider,
+          sessionDuration,
+        });
+    if (mfaRequired !== null) {
+      return mfaRequired;
+    }
+  }
+  const sessionId = reauthenticate
+    ? await reauthenticateCurrentSession(ctx, userId, verifyResult.sessionId)
+    : await createNewAndDeleteExistingSession(
+        ctx,
+        config,
+        userId,
+        metadata,
+        sessionDuration,
+      );
+  await recordAuthEvent(ctx, config, {
+    type: "signedIn",
     userId,
-  );
+    sessionId,
+    provider: verifyResult.provider,
+  });
+  if (!reauthenticate) {
+    await afterSignIn(ctx, config, {
+      sessionId,
+      provider: verifyResult.provider,
+      method: verifyResult.method,
+    });
+  }
   return await maybeGenerateTokensForSession(
     ctx,
     config,
@@ -117,23 +214,24 @@ async function verifyCodeOnly(
 ) {
   const { params, verifier } = args;
   const codeHash = await sha256(params.code);
-  const verificationCode = await ctx.db
-    .query("authVerificationCodes")
-    .withIndex("code", (q) => q.eq("code", codeHash))
-    .unique();
+  const verificationCode =
+    (await ctx.db
+      .query("authVerificationCodes")
+      .withIndex("code", (q) => q.eq("code", codeHash))
+      .unique()) ??
+    (await getVerificationCodeByOTP(
+      ctx,
+      codeHash,
+      params.email ?? params.phone,
+    ));
   if (verificationCode === null) {
     logWithLevel(LOG_LEVELS.ERROR, "Invalid verification code");
-    return null;
+    return {
+      failed: true,
+      userId: await accountUserId(ctx, methodProviderId, params),
+    } as const;
   }
   await ctx.db.delete(verificationCode._id);
-  if (verificationCode.verifier !== verifier) {
-    logWithLevel(LOG_LEVELS.ERROR, "Invalid verifier");
-    return null;
-  }
-  if (verificationCode.expirationTime < Date.now()) {
-    logWithLevel(LOG_LEVELS.ERROR, "Expired verification code");
-    return null;
-  }
   const { accountId, emailVerified, phoneVerified } = verificationCode;
   const account = await ctx.db.get(accountId);
   if (account === null) {
@@ -141,7 +239,15 @@ async function verifyCodeOnly(
       LOG_LEVELS.ERROR,
       "Account associated with this email has been deleted",
     );
-    return null;
+    return { failed: true, userId: null } as const;
+  }
+  if (verificationCode.verifier !== verifier) {
+    logWithLevel(LOG_LEVELS.ERROR, "Invalid verifier");
+    return { failed: true, userId: account.userId } as const;
+  }
+  if (verificationCode.expirationTime < Date.now()) {
+    logWithLevel(LOG_LEVELS.ERROR, "Expired verification code");
+    return { failed: true, userId: account.userId } as const;
   }
   if (
     methodProviderId !== null &&
@@ -152,7 +258,7 @@ async function verifyCodeOnly(
       `Invalid provider "${methodProviderId}" for given \`code\`, ` +
         `which was generated by provider "${verificationCode.provider}"`,
     );
-    return null;
+    return { failed: true, userId: account.userId } as const;
   }
   // OTP providers perform an additional check against the provided
   // params.
@@ -160,16 +266,38 @@ async function verifyCodeOnly(
     verificationCode.provider,
     allowExtraProviders,
   );
+  // Email and phone change codes are checked against the new value.
+  const identifier = changedIdentifier(verificationCode);
+  if (
+    identifier !== null &&
+    (sessionId === null ||
+      verificationCode.sessionId !== sessionId ||
+      (await ctx.db.get(sessionId)) === null)
+  ) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      `The ${identifier} change was started by a different session`,
+    );
+    return { failed: true, userId: account.userId } as const;
+  }
+  const newValue = identifier === "email" ? emailVerified! : phoneVerified!;
   if (
     methodProvider !== null &&
     (methodProvider.type === "email" || methodProvider.type === "phone") &&
     methodProvider.authorize !== undefined
   ) {
-    await methodProvider.authorize(args.params, account);
+    await methodProvider.authorize(
+      args.params,
+      identifier !== null
+        ? { ...account, providerAccountId: newValue }
+        : account,
+    );
   }
   let userId = account.userId;
   const provider = getProviderOrThrow(account.provider);
-  if (!(provider.type === "oauth" || provider.type === "oidc")) {
+  if (identifier !== null) {
+    await completeIdentifierChange(ctx, config, identifier, userId, newValue);
+  } else if (!(provider.type === "oauth" || provider.type === "oidc")) {
     ({ userId } = await upsertUserAndAccount(
       ctx,
       sessionId,
@@ -190,5 +318,56 @@ async function verifyCodeOnly(
     ));
   }
 
-  return { providerAccountId: account.providerAccountId, userId };
+  return {
+    providerAccountId: account.providerAccountId,
+    provider: verificationCode.provider,
+    method: signInMethod(methodProvider),
+    userId,
+    sessionDuration: verificationCode.sessionDuration,
+    reauthenticate: verificationCode.reauthenticate,
+    sessionId: verificationCode.sessionId,
+    identifierChanged: identifier !== null,
+  };
+}
+
+// A wrong code for a known email or phone is still attributed
+// to the user, so that it shows up in their audit log.
+async function accountUserId(
+  ctx: MutationCtx,
+  providerId: string | null,
+  params: any,
+) {
+  const identifier = params.email ?? params.phone;
+  if (providerId === null || identifier === undefined) {
+    return null;
+  }
+  const account = await ctx.db
+    .query("authAccounts")
+    .withIndex("providerAndAccountId", (q) =>
+      q.eq("provider", providerId).eq("providerAccountId", identifier),
+    )
+    .unique();
+  return account?.userId ?? null;
+}
+
+// Short OTPs sent along with a magic link are only unique
+// together with the email or phone number they were sent to.
+async function getVerificationCodeByOTP(
+  ctx: MutationCtx,
+  otpHash: string,
+  identifier: string | undefined,
+) {
+  if (identifier === undefined) {
+    return null;
+  }
+  const verificationCodes = await ctx.db
+    .query("authVerificationCodes")
+    .withIndex("otp", (q) => q.eq("otp", otpHash))
+    .collect();
+  return (
+    verificationCodes.find(
+      ({ emailVerified, phoneVerified }) =>
+        (emailVerified ?? phoneVerified) === identifier,
+    ) ?? null
+  );
 }
@@ -0,0 +1,286 @@
+import { GenericId, Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx, SessionInfo } from "../types.js";
+import * as Provider from "../provider.js";
+import {
+  createNewAndDeleteExistingSession,
+  getAuthSessionId,
+  maybeGenerateTokensForSession,
+  RECENT_AUTH_MAX_AGE_MS,
+  reauthenticateCurrentSession,
+  requireRecentAuth,
+  sessionMetadataArgs,
+} from "../sessions.js";
+import { PasskeyConfig } from "../../types.js";
+import {
+  PasskeyAuthenticationCredential,
+  PasskeyRegistrationCredential,
+  verifyPasskeyAuthentication,
+  verifyPasskeyRegistration,
+} from "../passkeys.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+import { upsertUserAndAccount } from "../users.js";
+import { recordAuthEvent } from "../events.js";
+import { afterSignIn, afterSignInFailed } from "../lifecycle.js";
+import { throwIfUserDisabled } from "../disableUser.js";
+import { completeMfaChallenge, MfaRequired, maybeRequireMfa } from "../mfa.js";
+
+export const verifyPasskeyAndSignInArgs = v.object({
+  provider: v.string(),
+  verifier: v.string(),
+  credential: v.union(
+    v.object({
+      id: v.string(),
+      clientDataJSON: v.string(),
+      authenticatorData: v.string(),
+      publicKey: v.string(),
+      publicKeyAlgorithm: v.number(),
+    }),
+    v.object({
+      id: v.string(),
+      clientDataJSON: v.string(),
+      authenticatorData: v.string(),
+      signature: v.string(),
+    }),
+  ),
+  // The profile of a new user registering a passkey
+  profile: v.any(),
+  generateTokens: v.boolean(),
+  metadata: v.optional(sessionMetadataArgs),
+  sessionDuration: v.optional(v.string()),
+  reauthenticate: v.optional(v.boolean()),
+  mfaChallenge: v.optional(v.string()),
+});
+
+type ReturnType = null | SessionInfo | MfaRequired;
+
+type VerifyResult = {
+  userId: GenericId<"users">;
+  sessionId?: GenericId<"authSessions">;
+} | null;
+
+export async function verifyPasskeyAndSignInImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof verifyPasskeyAndSignInArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  config: Provider.Config,
+): Promise<ReturnType> {
+  logWithLevel(LOG_LEVELS.DEBUG, "verifyPasskeyAndSignInImpl args:", {
+    provider: args.provider,
+    verifier: args.verifier,
+    credentialId: args.credential.id,
+    generateTokens: args.generateTokens,
+  });
+  const { provider: providerId, credential, generateTokens, metadata } = args;
+  const provider = getProviderOrThrow(providerId) as PasskeyConfig;
+  const challenge = await consumeChallenge(ctx, provider, args.verifier);
+  const verifyResult =
+    challenge === null
+      ? null
+      : "publicKey" in credential
+        ? await registerPasskey(
+            ctx,
+            provider,
+            challenge,
+            credential,
+            args,
+            config,
+          )
+        : await authenticatePasskey(
+            ctx,
+            provider,
+            challenge.challenge,
+            credential,
+          );
+  if (verifyResult === null) {
+    await recordAuthEvent(ctx, config, {
+      type: "signInFailed",
+      provider: providerId,
+    });
+    await afterSignInFailed(ctx, config, {
+      userId: null,
+      provider: providerId,
+      method: "passkey",
+    });
+    return null;
+  }
+  const { userId } = verifyResult;
+  await throwIfUserDisabled(ctx, userId);
+  // Registering another passkey keeps the current session.
+  let sessionId = verifyResult.sessionId;
+  if (sessionId === undefined) {
+    let sessionDuration = args.sessionDuration;
+    if (args.mfaChallenge !== undefined) {
+      const challenge = await completeMfaChallenge(ctx, config, {
+        mfaChallenge: args.mfaChallenge,
+        provider: providerId,
+        userId,
+      });
+      sessionDuration ??= challenge.sessionDuration;
+    } else if (!args.reauthenticate) {
+      const mfaRequired = await maybeRequireMfa(
+        ctx,
+        config,
+        getProviderOrThrow,
+        { userId, provider: providerId, sessionDuration },
+      );
+      if (mfaRequired !== null) {
+        return mfaRequired;
+      }
+    }
+    sessionId = args.reauthenticate
+      ? await reauthenticateCurrentSession(ctx, userId)
+      : await createNewAndDeleteExistingSession(
+          ctx,
+          config,
+          userId,
+          metadata,
+          sessionDuration,
+        );
+    await recordAuthEvent(ctx, config, {
+      type: "signedIn",
+      userId,
+      sessionId,
+      provider: providerId,
+    });
+    if (!args.reauthenticate) {
+      await afterSignIn(ctx, config, {
+        sessionId,
+        provider: providerId,
+        method: "passkey",
+      });
+    }
+  }
+  return await maybeGenerateTokensForSession(
+    ctx,
+    config,
+    userId,
+    sessionId,
+    generateTokens,
+  );
+}
+
+export const callVerifyPasskeyAndSignIn = async (
+  ctx: ActionCtx,
+  args: Infer<typeof verifyPasskeyAndSignInArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "verifyPasskeyAndSignIn",
+      ...args,
+    },
+  });
+};
+
+/**
+ * Each challenge can be used for a single ceremony.
+ */
+async function consumeChallenge(
+  ctx: MutationCtx,
+  provider: PasskeyConfig,
+  verifier: string,
+) {
+  const verifierId = ctx.db.normalizeId("authVerifiers", verifier);
+  const verifierDoc = verifierId !== null ? await ctx.db.get(verifierId) : null;
+  if (verifierDoc === null || verifierDoc.challenge === undefined) {
+    logWithLevel(LOG_LEVELS.ERROR, "Invalid passkey verifier");
+    return null;
+  }
+  await ctx.db.delete(verifierDoc._id);
+  if (verifierDoc._creationTime + provider.maxAge * 1000 < Date.now()) {
+    logWithLevel(LOG_LEVELS.ERROR, "Expired passkey challenge");
+    return null;
+  }
+  return {
+    challenge: verifierDoc.challenge,
+    // The session the options were issued to
+    sessionId: verifierDoc.sessionId ?? null,
+  };
+}
+
+async function registerPasskey(
+  ctx: MutationCtx,
+  provider: PasskeyConfig,
+  challenge: { challenge: string; sessionId: GenericId<"authSessions"> | null },
+  credential: PasskeyRegistrationCredential,
+  args: { profile: any },
+  config: Provider.Config,
+): Promise<VerifyResult> {
+  const existingAccount = await ctx.db
+    .query("authAccounts")
+    .withIndex("providerAndAccountId", (q) =>
+      q.eq("provider", provider.id).eq("providerAccountId", credential.id),
+    )
+    .unique();
+  if (existingAccount !== null) {
+    logWithLevel(LOG_LEVELS.ERROR, "Passkey is already registered");
+    return null;
+  }
+  const sessionId = await getAuthSessionId(ctx);
+  // The passkey is added to the account the options were issued for.
+  if (sessionId !== challenge.sessionId) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      "Passkey registration was started by a different session",
+    );
+    return null;
+  }
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  // Adding a passkey grants lasting access to the account, so it
+  // requires a recent sign-in and isn't available to impersonators.
+  if (session !== null) {
+    await requireRecentAuth(ctx, RECENT_AUTH_MAX_AGE_MS);
+  }
+  const counter = await verifyPasskeyRegistration(
+    provider,
+    challenge.challenge,
+    credential,
+  );
+  if (counter === null) {
+    return null;
+  }
+  const { userId, accountId } = await upsertUserAndAccount(
+    ctx,
+    sessionId,
+    { providerAccountId: credential.id },
+    {
+      type: "passkey",
+      provider,
+      profile: session !== null ? {} : args.profile ?? {},
+    },
+    config,
+    session?.userId,
+  );
+  await ctx.db.patch(accountId, { publicKey: credential.publicKey, counter });
+  logWithLevel(LOG_LEVELS.DEBUG, `Registered passkey for user ${userId}`);
+  return { userId, sessionId: session?._id };
+}
+
+async function authenticatePasskey(
+  ctx: MutationCtx,
+  provider: PasskeyConfig,
+  challenge: string,
+  credential: PasskeyAuthenticationCredential,
+): Promise<VerifyResult> {
+  const account = await ctx.db
+    .query("authAccounts")
+    .withIndex("providerAndAccountId", (q) =>
+      q.eq("provider", provider.id).eq("providerAccountId", credential.id),
+    )
+    .unique();
+  if (account === null || account.publicKey === undefined) {
+    logWithLevel(LOG_LEVELS.ERROR, "Unknown passkey");
+    return null;
+  }
+  const counter = await verifyPasskeyAuthentication(
+    provider,
+    challenge,
+    account.publicKey,
+    account.counter ?? 0,
+    credential,
+  );
+  if (counter === null) {
+    return null;
+  }
+  await ctx.db.patch(account._id, { counter });
+  return { userId: account.userId };
+}
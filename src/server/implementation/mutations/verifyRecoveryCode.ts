@@ -0,0 +1,101 @@
+import { GenericId, Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import {
+  isSignInRateLimited,
+  recordFailedSignIn,
+  resetSignInRateLimit,
+} from "../rateLimit.js";
+import { getRecoveryCodesOptions, hashRecoveryCode } from "../recoveryCodes.js";
+import { recordAuthEvent } from "../events.js";
+import { afterRecoveryCodeUsed } from "../lifecycle.js";
+import * as Provider from "../provider.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const verifyRecoveryCodeArgs = v.object({
+  provider: v.string(),
+  code: v.string(),
+  // Any account of the user signing in
+  accountId: v.id("authAccounts"),
+});
+
+type ReturnType =
+  | "NotEnrolled"
+  | "TooManyFailedAttempts"
+  | "InvalidCode"
+  | { userId: GenericId<"users"> };
+
+export async function verifyRecoveryCodeImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof verifyRecoveryCodeArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  config: Provider.Config,
+): Promise<ReturnType> {
+  const { provider: providerId, code, accountId } = args;
+  getRecoveryCodesOptions(getProviderOrThrow(providerId, true));
+  const account = await ctx.db.get(accountId);
+  if (account === null) {
+    throw new Error(`Account ${accountId} does not exist`);
+  }
+  const { userId } = account;
+  const recoveryAccount = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", providerId),
+    )
+    .unique();
+  if (recoveryAccount === null) {
+    return "NotEnrolled";
+  }
+  if (await isSignInRateLimited(ctx, recoveryAccount._id, config)) {
+    return "TooManyFailedAttempts";
+  }
+  const codeHash = await hashRecoveryCode(code);
+  const recoveryCode = await ctx.db
+    .query("authRecoveryCodes")
+    .withIndex("accountIdAndCode", (q) =>
+      q.eq("accountId", recoveryAccount._id).eq("code", codeHash),
+    )
+    .unique();
+  if (recoveryCode === null) {
+    logWithLevel(LOG_LEVELS.ERROR, "Invalid or already used recovery code");
+    await recordAuthEvent(ctx, config, {
+      type: "signInFailed",
+      userId,
+      provider: providerId,
+    });
+    await recordFailedSignIn(ctx, recoveryAccount._id, config);
+    return "InvalidCode";
+  }
+  const codes = await ctx.db
+    .query("authRecoveryCodes")
+    .withIndex("accountIdAndCode", (q) =>
+      q.eq("accountId", recoveryAccount._id),
+    )
+    .collect();
+  const codesLeft = codes.length - 1;
+  await ctx.db.delete(recoveryCode._id);
+  await resetSignInRateLimit(ctx, recoveryAccount._id);
+  // Without codes left the user no longer has this factor
+  if (codesLeft === 0) {
+    await ctx.db.delete(recoveryAccount._id);
+  }
+  await recordAuthEvent(ctx, config, {
+    type: "recoveryCodeUsed",
+    userId,
+    provider: providerId,
+  });
+  await afterRecoveryCodeUsed(ctx, config, { userId, codesLeft });
+  return { userId };
+}
+
+export const callVerifyRecoveryCode = async (
+  ctx: ActionCtx,
+  args: Infer<typeof verifyRecoveryCodeArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "verifyRecoveryCode",
+      ...args,
+    },
+  });
+};
@@ -0,0 +1,112 @@
+import { GenericId, Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../types.js";
+import {
+  RECENT_AUTH_MAX_AGE_MS,
+  getAuthSessionId,
+  requireRecentAuth,
+} from "../sessions.js";
+import {
+  isSignInRateLimited,
+  recordFailedSignIn,
+  resetSignInRateLimit,
+} from "../rateLimit.js";
+import { decryptTOTPSecret, getTOTPOptions, matchTOTPCode } from "../totp.js";
+import { recordAuthEvent } from "../events.js";
+import * as Provider from "../provider.js";
+import { LOG_LEVELS, logWithLevel } from "../utils.js";
+
+export const verifyTOTPArgs = v.object({
+  provider: v.string(),
+  code: v.string(),
+  // Any account of the user signing in. If not given, the signed-in
+  // user's unconfirmed enrollment is confirmed.
+  accountId: v.optional(v.id("authAccounts")),
+});
+
+type ReturnType =
+  | "NotEnrolled"
+  | "TooManyFailedAttempts"
+  | "InvalidCode"
+  | { userId: GenericId<"users"> };
+
+export async function verifyTOTPImpl(
+  ctx: MutationCtx,
+  args: Infer<typeof verifyTOTPArgs>,
+  getProviderOrThrow: Provider.GetProviderOrThrowFunc,
+  config: Provider.Config,
+): Promise<ReturnType> {
+  const { provider: providerId, code, accountId } = args;
+  const options = getTOTPOptions(getProviderOrThrow(providerId, true));
+  const confirm = accountId === undefined;
+  let userId: GenericId<"users">;
+  if (confirm) {
+    const sessionId = await getAuthSessionId(ctx);
+    const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+    if (session === null) {
+      throw new Error("Cannot confirm TOTP enrollment without being signed in");
+    }
+    // Also rejects impersonators
+    await requireRecentAuth(ctx, RECENT_AUTH_MAX_AGE_MS);
+    userId = session.userId;
+  } else {
+    const account = await ctx.db.get(accountId);
+    if (account === null) {
+      throw new Error(`Account ${accountId} does not exist`);
+    }
+    userId = account.userId;
+  }
+  const totpAccount = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", providerId),
+    )
+    .unique();
+  // Codes for unconfirmed enrollments can't be used to sign in,
+  // and confirmed enrollments can't be confirmed again.
+  if (totpAccount === null || (totpAccount.counter === undefined) !== confirm) {
+    return "NotEnrolled";
+  }
+  if (await isSignInRateLimited(ctx, totpAccount._id, config)) {
+    return "TooManyFailedAttempts";
+  }
+  const step = await matchTOTPCode(
+    options,
+    await decryptTOTPSecret(options, totpAccount.secret!),
+    code,
+    totpAccount.counter,
+  );
+  if (step === null) {
+    logWithLevel(LOG_LEVELS.ERROR, "Invalid or already used TOTP code");
+    if (!confirm) {
+      await recordAuthEvent(ctx, config, {
+        type: "signInFailed",
+        userId,
+        provider: providerId,
+      });
+    }
+    await recordFailedSignIn(ctx, totpAccount._id, config);
+    return "InvalidCode";
+  }
+  await ctx.db.patch(totpAccount._id, { counter: step });
+  await resetSignInRateLimit(ctx, totpAccount._id);
+  if (confirm) {
+    await recordAuthEvent(ctx, config, {
+      type: "totpEnrolled",
+      userId,
+      provider: providerId,
+    });
+  }
+  return { userId };
+}
+
+export const callVerifyTOTP = async (
+  ctx: ActionCtx,
+  args: Infer<typeof verifyTOTPArgs>,
+): Promise<ReturnType> => {
+  return ctx.runMutation("auth:store" as any, {
+    args: {
+      type: "verifyTOTP",
+      ...args,
+    },
+  });
+};
@@ -0,0 +1,337 @@
+import { base64url } from "oslo/encoding";
+import { WebAuthnController } from "oslo/webauthn";
+import { PasskeyConfig } from "../types.js";
+import { requireEnv } from "../utils.js";
+import { LOG_LEVELS, logWithLevel } from "./utils.js";
+
+// COSE algorithm identifier of ECDSA with P-256 and SHA-256,
+// supported by all major authenticators.
+const ES256 = -7;
+const CHALLENGE_BYTES = 32;
+const USER_HANDLE_BYTES = 16;
+
+// Authenticator data flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * The result of `navigator.credentials.create()`,
+ * with binary fields encoded as base64url.
+ */
+export type PasskeyRegistrationCredential = {
+  id: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  // SubjectPublicKeyInfo from `response.getPublicKey()`,
+  // must match the key in the authenticator data
+  publicKey: string;
+  publicKeyAlgorithm: number;
+};
+
+/**
+ * The result of `navigator.credentials.get()`,
+ * with binary fields encoded as base64url.
+ */
+export type PasskeyAuthenticationCredential = {
+  id: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+};
+
+export function getPasskeyOrigin(provider: PasskeyConfig) {
+  return new URL(provider.origin ?? requireEnv("SITE_URL"));
+}
+
+export function generatePasskeyChallenge() {
+  return encode(crypto.getRandomValues(new Uint8Array(CHALLENGE_BYTES)));
+}
+
+/**
+ * Options for `navigator.credentials.create()`, with binary
+ * fields encoded as base64url.
+ */
+export function passkeyRegistrationOptions(
+  provider: PasskeyConfig,
+  args: {
+    challenge: string;
+    userId: string | null;
+    userName: string;
+    excludeCredentialIds: string[];
+  },
+) {
+  return {
+    challenge: args.challenge,
+    rp: { name: provider.rpName, id: getPasskeyOrigin(provider).hostname },
+    user: {
+      id:
+        args.userId !== null
+          ? encode(new TextEncoder().encode(args.userId))
+          : encode(crypto.getRandomValues(new Uint8Array(USER_HANDLE_BYTES))),
+      name: args.userName,
+      displayName: args.userName,
+    },
+    pubKeyCredParams: [{ type: "public-key", alg: ES256 }],
+    excludeCredentials: args.excludeCredentialIds.map((id) => ({
+      type: "public-key",
+      id,
+    })),
+    authenticatorSelection: {
+      residentKey: "required",
+      requireResidentKey: true,
+      userVerification: provider.userVerification,
+    },
+    timeout: provider.maxAge * 1000,
+  };
+}
+
+/**
+ * Options for `navigator.credentials.get()`, with binary
+ * fields encoded as base64url.
+ */
+export function passkeyAuthenticationOptions(
+  provider: PasskeyConfig,
+  args: { challenge: string },
+) {
+  return {
+    challenge: args.challenge,
+    rpId: getPasskeyOrigin(provider).hostname,
+    userVerification: provider.userVerification,
+    timeout: provider.maxAge * 1000,
+  };
+}
+
+/**
+ * Check that the new credential was created for the given challenge
+ * by an authenticator scoped to the provider's origin.
+ *
+ * @returns the credential's signature counter, or `null`
+ *          if the credential is invalid
+ */
+export async function verifyPasskeyRegistration(
+  provider: PasskeyConfig,
+  challenge: string,
+  credential: PasskeyRegistrationCredential,
+) {
+  if (credential.publicKeyAlgorithm !== ES256) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      `Unsupported passkey algorithm ${credential.publicKeyAlgorithm}`,
+    );
+    return null;
+  }
+  const authenticatorData = decode(credential.authenticatorData);
+  try {
+    await new WebAuthnController(
+      getPasskeyOrigin(provider).origin,
+    ).validateAttestationResponse(
+      {
+        clientDataJSON: decode(credential.clientDataJSON),
+        authenticatorData,
+      },
+      decode(challenge),
+    );
+  } catch (error) {
+    logWithLevel(LOG_LEVELS.ERROR, (error as Error).message);
+    return null;
+  }
+  if (!hasRequiredFlags(provider, authenticatorData)) {
+    return null;
+  }
+  const publicKey = attestedPublicKey(authenticatorData);
+  if (
+    attestedCredentialId(authenticatorData) !== credential.id ||
+    publicKey === null ||
+    encode(publicKey) !== credential.publicKey
+  ) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      "Passkey credential doesn't match the authenticator data",
+    );
+    return null;
+  }
+  return signCount(authenticatorData);
+}
+
+/**
+ * Check that the credential signed the given challenge.
+ *
+ * @returns the credential's new signature counter, or `null`
+ *          if the signature is invalid or the counter went backwards
+ */
+export async function verifyPasskeyAuthentication(
+  provider: PasskeyConfig,
+  challenge: string,
+  publicKey: string,
+  previousSignCount: number,
+  credential: PasskeyAuthenticationCredential,
+) {
+  const authenticatorData = decode(credential.authenticatorData);
+  try {
+    await new WebAuthnController(
+      getPasskeyOrigin(provider).origin,
+    ).validateAssertionResponse(
+      "ES256",
+      decode(publicKey),
+      {
+        clientDataJSON: decode(credential.clientDataJSON),
+        authenticatorData,
+        signature: decode(credential.signature),
+      },
+      decode(challenge),
+    );
+  } catch (error) {
+    logWithLevel(LOG_LEVELS.ERROR, (error as Error).message);
+    return null;
+  }
+  if (!hasRequiredFlags(provider, authenticatorData)) {
+    return null;
+  }
+  const count = signCount(authenticatorData);
+  // Authenticators which don't implement the counter always return 0,
+  // otherwise a counter that didn't increase suggests a cloned credential.
+  if ((count !== 0 || previousSignCount !== 0) && count <= previousSignCount) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      `Passkey signature counter ${count} is not greater than ${previousSignCount}`,
+    );
+    return null;
+  }
+  return count;
+}
+
+function hasRequiredFlags(
+  provider: PasskeyConfig,
+  authenticatorData: Uint8Array,
+) {
+  const flags = authenticatorData[32];
+  if ((flags & USER_PRESENT) === 0) {
+    logWithLevel(LOG_LEVELS.ERROR, "Passkey user presence is missing");
+    return false;
+  }
+  if (
+    provider.userVerification === "required" &&
+    (flags & USER_VERIFIED) === 0
+  ) {
+    logWithLevel(LOG_LEVELS.ERROR, "Passkey user verification is missing");
+    return false;
+  }
+  return true;
+}
+
+// Layout: rpIdHash (32), flags (1), signCount (4), then
+// aaguid (16), credentialIdLength (2) and credentialId
+// if attested credential data is included.
+function signCount(authenticatorData: Uint8Array) {
+  return new DataView(
+    authenticatorData.buffer,
+    authenticatorData.byteOffset,
+  ).getUint32(33);
+}
+
+function attestedCredentialId(authenticatorData: Uint8Array) {
+  if (
+    (authenticatorData[32] & ATTESTED_CREDENTIAL_DATA) === 0 ||
+    authenticatorData.byteLength < 55
+  ) {
+    return null;
+  }
+  const length = new DataView(
+    authenticatorData.buffer,
+    authenticatorData.byteOffset,
+  ).getUint16(53);
+  return encode(authenticatorData.slice(55, 55 + length));
+}
+
+// DER prefix of a SubjectPublicKeyInfo with an uncompressed P-256 point.
+const P256_SPKI_PREFIX = new Uint8Array([
+  0x30, 0x59, 0x30, 0x13, 0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01,
+  0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07, 0x03, 0x42, 0x00,
+  0x04,
+]);
+
+/**
+ * The attested credential's public key, a COSE_Key encoded as CBOR
+ * right after the credential ID, converted to SubjectPublicKeyInfo.
+ *
+ * Only ES256 (EC2 on P-256) keys are supported.
+ */
+function attestedPublicKey(authenticatorData: Uint8Array) {
+  const credentialId = attestedCredentialId(authenticatorData);
+  if (credentialId === null) {
+    return null;
+  }
+  let offset = 55 + decode(credentialId).byteLength;
+  // Reads the initial byte and argument of a CBOR data item.
+  const readHead = () => {
+    const initial = authenticatorData[offset++];
+    const info = initial & 0x1f;
+    let value: number;
+    if (info < 24) {
+      value = info;
+    } else if (info === 24) {
+      value = authenticatorData[offset++];
+    } else if (info === 25) {
+      value = (authenticatorData[offset] << 8) | authenticatorData[offset + 1];
+      offset += 2;
+    } else {
+      throw new Error(`Unsupported CBOR argument ${info}`);
+    }
+    return { majorType: initial >> 5, value };
+  };
+  // Reads an integer or a byte string.
+  const readItem = () => {
+    const { majorType, value } = readHead();
+    switch (majorType) {
+      case 0:
+        return value;
+      case 1:
+        return -1 - value;
+      case 2:
+        offset += value;
+        return authenticatorData.slice(offset - value, offset);
+      default:
+        throw new Error(`Unsupported CBOR major type ${majorType}`);
+    }
+  };
+  const coseKey = new Map<number | Uint8Array, number | Uint8Array>();
+  try {
+    const { majorType, value: size } = readHead();
+    if (majorType !== 5) {
+      throw new Error("COSE_Key is not a map");
+    }
+    for (let i = 0; i < size; i++) {
+      coseKey.set(readItem(), readItem());
+    }
+  } catch (error) {
+    logWithLevel(LOG_LEVELS.ERROR, (error as Error).message);
+    return null;
+  }
+  // kty: EC2, alg: ES256, crv: P-256, x and y coordinates
+  const x = coseKey.get(-2);
+  const y = coseKey.get(-3);
+  if (
+    coseKey.get(1) !== 2 ||
+    coseKey.get(3) !== ES256 ||
+    coseKey.get(-1) !== 1 ||
+    !(x instanceof Uint8Array && x.byteLength === 32) ||
+    !(y instanceof Uint8Array && y.byteLength === 32) ||
+    offset > authenticatorData.byteLength
+  ) {
+    return null;
+  }
+  const publicKey = new Uint8Array(P256_SPKI_PREFIX.byteLength + 64);
+  publicKey.set(P256_SPKI_PREFIX);
+  publicKey.set(x, P256_SPKI_PREFIX.byteLength);
+  publicKey.set(y, P256_SPKI_PREFIX.byteLength + 32);
+  return publicKey;
+}
+
+function encode(data: Uint8Array) {
+  return base64url.encode(data, { includePadding: false });
+}
+
+function decode(data: string) {
+  return base64url.decode(data, { strict: false });
+}
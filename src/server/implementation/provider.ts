@@ -17,6 +17,19 @@ export async function verify(
   provider: AuthProviderMaterializedConfig,
   secret: string,
   hash: string,
+) {
+  return (await verifyAndCheckRehash(provider, secret, hash)).valid;
+}
+
+/**
+ * Verify the secret via `crypto.verifySecret` or any of the
+ * `crypto.verifiers`, and check whether the hash should be replaced
+ * with one created via `crypto.hashSecret`.
+ */
+export async function verifyAndCheckRehash(
+  provider: AuthProviderMaterializedConfig,
+  secret: string,
+  hash: string,
 ) {
   if (provider.type !== "credentials") {
     throw new Error(`Provider ${provider.id} is not a credentials provider`);
@@ -27,7 +40,16 @@ export async function verify(
       `Provider ${provider.id} does not have a \`crypto.verifySecret\` function`,
     );
   }
-  return await verifySecretFn(secret, hash);
+  if (await verifySecretFn(secret, hash)) {
+    const needsRehash = (await provider.crypto?.needsRehash?.(hash)) ?? false;
+    return { valid: true, needsRehash };
+  }
+  for (const verifier of provider.crypto?.verifiers ?? []) {
+    if (await verifier(secret, hash)) {
+      return { valid: true, needsRehash: true };
+    }
+  }
+  return { valid: false, needsRehash: false };
 }
 
 export type GetProviderOrThrowFunc = (
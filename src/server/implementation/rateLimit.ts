@@ -15,25 +15,30 @@ export async function isSignInRateLimited(
   return state.attempsLeft < 1;
 }
 
+/**
+ * @returns whether the failed attempt used up the remaining attempts
+ */
 export async function recordFailedSignIn(
   ctx: MutationCtx,
   identifier: string,
   config: ConvexAuthConfig,
 ) {
   const state = await getRateLimitState(ctx, identifier, config);
+  const attemptsLeft =
+    (state?.attempsLeft ?? configuredMaxAttempsPerHour(config)) - 1;
   if (state !== null) {
     await ctx.db.patch(state.limit._id, {
-      attemptsLeft: state.attempsLeft - 1,
+      attemptsLeft,
       lastAttemptTime: Date.now(),
     });
   } else {
-    const maxAttempsPerHour = configuredMaxAttempsPerHour(config);
     await ctx.db.insert("authRateLimits", {
       identifier,
-      attemptsLeft: maxAttempsPerHour - 1,
+      attemptsLeft,
       lastAttemptTime: Date.now(),
     });
   }
+  return attemptsLeft < 1;
 }
 
 export async function resetSignInRateLimit(
@@ -0,0 +1,96 @@
+import { GenericDataModel, GenericQueryCtx } from "convex/server";
+import { GenericId } from "convex/values";
+import { alphabet, generateRandomString } from "oslo/crypto";
+import type { RecoveryCodesConfig } from "../../providers/RecoveryCodes.js";
+import {
+  AuthProviderMaterializedConfig,
+  ConvexCredentialsConfig,
+} from "../types.js";
+import { QueryCtx } from "./types.js";
+import { sha256 } from "./utils.js";
+
+const DEFAULT_COUNT = 10;
+const CODE_LENGTH = 10;
+
+export function isRecoveryCodesProvider(
+  provider: AuthProviderMaterializedConfig,
+): provider is ConvexCredentialsConfig & {
+  recoveryCodes: RecoveryCodesConfig;
+} {
+  return provider.type === "credentials" && "recoveryCodes" in provider;
+}
+
+export function getRecoveryCodesOptions(
+  provider: AuthProviderMaterializedConfig,
+): RecoveryCodesConfig {
+  if (!isRecoveryCodesProvider(provider)) {
+    throw new Error(`Provider ${provider.id} is not a recovery codes provider`);
+  }
+  return provider.recoveryCodes;
+}
+
+/**
+ * Codes like `k3v9x-2hq7m`, easy to copy down.
+ */
+export function generateRecoveryCodes(options: RecoveryCodesConfig) {
+  return Array.from({ length: options.count ?? DEFAULT_COUNT }, () => {
+    const code = generateRandomString(CODE_LENGTH, alphabet("a-z", "0-9"));
+    return `${code.slice(0, CODE_LENGTH / 2)}-${code.slice(CODE_LENGTH / 2)}`;
+  });
+}
+
+/**
+ * Users might type the codes with different casing or separators.
+ */
+export async function hashRecoveryCode(code: string) {
+  return await sha256(code.toLowerCase().replace(/[^a-z0-9]/g, ""));
+}
+
+/**
+ * Count the recovery codes the user hasn't used yet,
+ * for example to prompt them to generate new ones:
+ *
+ * ```ts filename="convex/mfa.ts"
+ * import { query } from "./_generated/server";
+ * import { countRecoveryCodes, getAuthUserId } from "@convex-dev/auth/server";
+ *
+ * export const recoveryCodesLeft = query({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     const userId = await getAuthUserId(ctx);
+ *     if (userId === null) {
+ *       throw new Error("Not signed in");
+ *     }
+ *     return await countRecoveryCodes(ctx, userId);
+ *   },
+ * });
+ * ```
+ *
+ * @param ctx query or mutation `ctx`
+ * @param userId the ID of the user whose codes to count
+ * @param provider the ID of the `RecoveryCodes` provider
+ * @returns the number of unused codes, 0 if the user never generated any
+ */
+export async function countRecoveryCodes<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(
+  ctx: GenericQueryCtx<DataModel>,
+  userId: GenericId<"users">,
+  provider = "recovery-code",
+) {
+  const queryCtx = ctx as unknown as QueryCtx;
+  const account = await queryCtx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) =>
+      q.eq("userId", userId).eq("provider", provider),
+    )
+    .unique();
+  if (account === null) {
+    return 0;
+  }
+  const codes = await queryCtx.db
+    .query("authRecoveryCodes")
+    .withIndex("accountIdAndCode", (q) => q.eq("accountId", account._id))
+    .collect();
+  return codes.length;
+}
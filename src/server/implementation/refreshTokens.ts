@@ -1,6 +1,6 @@
 import { GenericId } from "convex/values";
 import { ConvexAuthConfig } from "../index.js";
-import { MutationCtx } from "./types.js";
+import { Doc, MutationCtx } from "./types.js";
 import {
   LOG_LEVELS,
   REFRESH_TOKEN_DIVIDER,
@@ -12,12 +12,14 @@ const DEFAULT_SESSION_INACTIVE_DURATION_MS = 1000 * 60 * 60 * 24 * 30; // 30 day
 
 export async function createRefreshToken(
   ctx: MutationCtx,
-  sessionId: GenericId<"authSessions">,
+  session: Doc<"authSessions">,
   config: ConvexAuthConfig,
 ) {
+  const sessionId = session._id;
   const expirationTime =
     Date.now() +
-    (config.session?.inactiveDurationMs ??
+    (session.inactiveDurationMs ??
+      config.session?.inactiveDurationMs ??
       stringToNumber(process.env.AUTH_SESSION_INACTIVE_DURATION_MS) ??
       DEFAULT_SESSION_INACTIVE_DURATION_MS);
   const newRefreshTokenId = await ctx.db.insert("authRefreshTokens", {
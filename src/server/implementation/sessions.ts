@@ -1,17 +1,65 @@
-import { GenericId } from "convex/values";
+import { ConvexError, GenericId, Infer, v } from "convex/values";
 import { ConvexAuthConfig } from "../index.js";
-import { Doc, MutationCtx, SessionInfo } from "./types.js";
-import { Auth } from "convex/server";
+import { Doc, MutationCtx, QueryCtx, SessionInfo } from "./types.js";
+import {
+  Auth,
+  GenericDataModel,
+  GenericMutationCtx,
+  GenericQueryCtx,
+} from "convex/server";
 import {
   LOG_LEVELS,
   TOKEN_SUB_CLAIM_DIVIDER,
   logWithLevel,
+  sha256,
   stringToNumber,
 } from "./utils.js";
 import { generateToken } from "./tokens.js";
 import { createRefreshToken, deleteRefreshTokens } from "./refreshTokens.js";
 
 const DEFAULT_SESSION_TOTAL_DURATION_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+// How recently the user must have authenticated to change how they sign in.
+export const RECENT_AUTH_MAX_AGE_MS = 1000 * 60 * 5; // 5 minutes
+
+export const sessionMetadataArgs = v.object({
+  userAgent: v.optional(v.string()),
+  ipAddress: v.optional(v.string()),
+  deviceLabel: v.optional(v.string()),
+});
+
+export type SessionMetadata = Infer<typeof sessionMetadataArgs>;
+
+// Metadata accepted from the client by the `signIn` action.
+export const clientSessionMetadataArgs = v.object({
+  ...sessionMetadataArgs.fields,
+  proxySecret: v.optional(v.string()),
+});
+
+/**
+ * The client can't be trusted to report its own IP address,
+ * only a server-side proxy which knows the `AUTH_PROXY_SECRET`.
+ */
+export async function trustedSessionMetadata(
+  metadata: Infer<typeof clientSessionMetadataArgs> | undefined,
+): Promise<SessionMetadata | undefined> {
+  if (metadata === undefined) {
+    return undefined;
+  }
+  const { proxySecret, ipAddress, ...rest } = metadata;
+  const secret = process.env.AUTH_PROXY_SECRET;
+  const trusted =
+    secret !== undefined &&
+    proxySecret !== undefined &&
+    // Compare hashes to not leak the secret via timing
+    (await sha256(proxySecret)) === (await sha256(secret));
+  if (ipAddress !== undefined && !trusted) {
+    logWithLevel(
+      LOG_LEVELS.WARN,
+      "Ignoring `ipAddress` not reported by a trusted proxy",
+    );
+  }
+  return trusted ? { ...rest, ipAddress } : rest;
+}
 
 export async function maybeGenerateTokensForSession(
   ctx: MutationCtx,
@@ -33,6 +81,8 @@ export async function createNewAndDeleteExistingSession(
   ctx: MutationCtx,
   config: ConvexAuthConfig,
   userId: GenericId<"users">,
+  metadata?: SessionMetadata,
+  sessionDuration?: string,
 ) {
   const existingSessionId = await getAuthSessionId(ctx);
   if (existingSessionId !== null) {
@@ -41,7 +91,7 @@ export async function createNewAndDeleteExistingSession(
       await deleteSession(ctx, existingSession);
     }
   }
-  return await createSession(ctx, userId, config);
+  return await createSession(ctx, userId, config, metadata, sessionDuration);
 }
 
 export async function generateTokensForSession(
@@ -51,9 +101,20 @@ export async function generateTokensForSession(
   sessionId: GenericId<"authSessions">,
 ) {
   const ids = { userId, sessionId };
+  const customClaims = await config.callbacks?.jwtClaims?.(ctx, ids);
+  const session = (await ctx.db.get(sessionId))!;
+  const authTime = sessionAuthTime(session);
   const result = {
-    token: await generateToken(ids, config),
-    refreshToken: await createRefreshToken(ctx, sessionId, config),
+    token: await generateToken(
+      {
+        ...ids,
+        authTime,
+        impersonatorId: session.impersonatorId,
+        customClaims,
+      },
+      config,
+    ),
+    refreshToken: await createRefreshToken(ctx, session, config),
   };
   logWithLevel(LOG_LEVELS.DEBUG, "Generated tokens for session:", result);
   return result;
@@ -63,13 +124,72 @@ async function createSession(
   ctx: MutationCtx,
   userId: GenericId<"users">,
   config: ConvexAuthConfig,
+  metadata?: SessionMetadata,
+  sessionDuration?: string,
 ) {
+  return await ctx.db.insert("authSessions", {
+    userId,
+    authTime: Date.now(),
+    ...sessionDurationFields(config, sessionDuration),
+    ...metadata,
+  });
+}
+
+/**
+ * The expiration time and inactive duration of a session
+ * for the given `sessionDuration` sign-in hint.
+ */
+export function sessionDurationFields(
+  config: ConvexAuthConfig,
+  sessionDuration?: string,
+) {
+  const durations =
+    sessionDuration !== undefined
+      ? config.session?.durationsForHint?.(sessionDuration)
+      : undefined;
   const expirationTime =
     Date.now() +
-    (config.session?.totalDurationMs ??
+    (durations?.totalDurationMs ??
+      config.session?.totalDurationMs ??
       stringToNumber(process.env.AUTH_SESSION_TOTAL_DURATION_MS) ??
       DEFAULT_SESSION_TOTAL_DURATION_MS);
-  return await ctx.db.insert("authSessions", { expirationTime, userId });
+  return { expirationTime, inactiveDurationMs: durations?.inactiveDurationMs };
+}
+
+/**
+ * Mark the current session as freshly authenticated instead
+ * of replacing it with a new session.
+ *
+ * Codes exchanged via a redirect, like OAuth and magic link codes,
+ * reauthenticate the session which started the flow, since the
+ * exchange isn't necessarily authenticated.
+ */
+export async function reauthenticateCurrentSession(
+  ctx: MutationCtx,
+  userId: GenericId<"users">,
+  startingSessionId?: GenericId<"authSessions">,
+) {
+  const sessionId = startingSessionId ?? (await getAuthSessionId(ctx));
+  const session = sessionId !== null ? await ctx.db.get(sessionId) : null;
+  if (
+    session === null ||
+    session.userId !== userId ||
+    session.impersonatorId !== undefined
+  ) {
+    logWithLevel(
+      LOG_LEVELS.ERROR,
+      "Cannot reauthenticate, the client is not signed in as the same user",
+    );
+    throw new Error("Cannot reauthenticate");
+  }
+  await ctx.db.patch(session._id, { authTime: Date.now() });
+  return session._id;
+}
+
+// Sessions created before `authTime` was recorded
+// were authenticated when they were created.
+function sessionAuthTime(session: Doc<"authSessions">) {
+  return session.authTime ?? session._creationTime;
 }
 
 export async function deleteSession(
@@ -111,3 +231,129 @@ export async function getAuthSessionId(ctx: { auth: Auth }) {
   const [, sessionId] = identity.subject.split(TOKEN_SUB_CLAIM_DIVIDER);
   return sessionId as GenericId<"authSessions">;
 }
+
+/**
+ * List the active sessions of the given user, for example
+ * to show a "where you're signed in" page.
+ *
+ * ```ts filename="convex/sessions.ts"
+ * import { query } from "./_generated/server";
+ * import { getAuthUserId, listSessions } from "@convex-dev/auth/server";
+ *
+ * export const list = query({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     const userId = await getAuthUserId(ctx);
+ *     if (userId === null) {
+ *       return [];
+ *     }
+ *     return await listSessions(ctx, userId);
+ *   },
+ * });
+ * ```
+ *
+ * The `userAgent` and `deviceLabel` fields are reported by the client
+ * during sign-in and are informational only. The `ipAddress` is only
+ * recorded when reported by a server-side proxy, such as the Next.js
+ * middleware, configured with the `AUTH_PROXY_SECRET`.
+ *
+ * @param ctx query or mutation `ctx`
+ * @param userId the ID of the user whose sessions to list
+ * @returns the unexpired sessions, most recently created first
+ */
+export async function listSessions<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(ctx: GenericQueryCtx<DataModel>, userId: GenericId<"users">) {
+  const queryCtx = ctx as unknown as QueryCtx;
+  const currentSessionId = await getAuthSessionId(queryCtx);
+  const sessions = await queryCtx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .collect();
+  const now = Date.now();
+  return sessions
+    .filter((session) => session.expirationTime > now)
+    .map((session) => ({
+      sessionId: session._id,
+      creationTime: session._creationTime,
+      lastRefreshTime: session.lastRefreshTime ?? null,
+      expirationTime: session.expirationTime,
+      userAgent: session.userAgent ?? null,
+      ipAddress: session.ipAddress ?? null,
+      deviceLabel: session.deviceLabel ?? null,
+      impersonatorId: session.impersonatorId ?? null,
+      isCurrent: session._id === currentSessionId,
+    }));
+}
+
+/**
+ * Revoke (delete) the given session and its refresh tokens.
+ *
+ * The client using this session will be signed out
+ * when it next tries to refresh its JWT.
+ *
+ * Make sure to check that the current user is allowed to revoke
+ * the session, for example by comparing the session's `userId`
+ * with `getAuthUserId`.
+ *
+ * @param ctx mutation `ctx`
+ * @param sessionId the ID of the session to revoke
+ * @returns `true` if the session existed and was revoked
+ */
+export async function revokeSession<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(ctx: GenericMutationCtx<DataModel>, sessionId: GenericId<"authSessions">) {
+  const mutationCtx = ctx as unknown as MutationCtx;
+  const session = await mutationCtx.db.get(sessionId);
+  if (session === null) {
+    return false;
+  }
+  await deleteSession(mutationCtx, session);
+  return true;
+}
+
+/**
+ * Require that the current user authenticated recently, for example
+ * before deleting their account or changing their email:
+ *
+ * ```ts filename="convex/users.ts"
+ * import { mutation } from "./_generated/server";
+ * import { requireRecentAuth } from "@convex-dev/auth/server";
+ *
+ * export const deleteAccount = mutation({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     const { userId } = await requireRecentAuth(ctx, 5 * 60 * 1000);
+ *     // ...
+ *   },
+ * });
+ * ```
+ *
+ * Refreshing the session doesn't count as authenticating. To let the user
+ * authenticate again without signing out, use `reauthenticate` from
+ * `useAuthActions`. Impersonation sessions never pass this check.
+ *
+ * @param ctx query or mutation `ctx`
+ * @param maxAgeMs how long ago the user can have last authenticated
+ * @returns the current user and session IDs
+ * @throws `ConvexError` with `"ReauthenticationRequired"` data if the
+ *         client isn't authenticated, authenticated too long ago or
+ *         is impersonating the user
+ */
+export async function requireRecentAuth<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(ctx: GenericQueryCtx<DataModel>, maxAgeMs: number) {
+  const queryCtx = ctx as unknown as QueryCtx;
+  const sessionId = await getAuthSessionId(queryCtx);
+  const session = sessionId !== null ? await queryCtx.db.get(sessionId) : null;
+  if (
+    session === null ||
+    // An impersonator can't authenticate as the user
+    session.impersonatorId !== undefined ||
+    sessionAuthTime(session) < Date.now() - maxAgeMs
+  ) {
+    throw new ConvexError("ReauthenticationRequired");
+  }
+  return { userId: session.userId, sessionId: session._id };
+}
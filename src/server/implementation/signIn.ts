@@ -4,6 +4,7 @@ import {
   ConvexCredentialsConfig,
   EmailConfig,
   GenericActionCtxWithAuthConfig,
+  PasskeyConfig,
   PhoneConfig,
 } from "../types.js";
 import {
@@ -14,15 +15,20 @@ import {
 } from "./types.js";
 import {
   callCreateVerificationCode,
+  callMfaChallengeAccount,
+  callPasskeyOptions,
   callRefreshSession,
   callSignIn,
   callVerifier,
   callVerifyCodeAndSignIn,
+  callVerifyPasskeyAndSignIn,
 } from "./mutations/index.js";
 import { alphabet, generateRandomString } from "oslo/crypto";
 import { redirectAbsoluteUrl, setURLSearchParam } from "./redirects.js";
 import { requireEnv } from "../utils.js";
 import { OAuth2Config, OIDCConfig } from "@auth/core/providers/oauth.js";
+import { SessionMetadata } from "./sessions.js";
+import { MfaDeferred, MfaRequired } from "./mfa.js";
 
 const DEFAULT_EMAIL_VERIFICATION_CODE_DURATION_S = 60 * 60 * 24; // 24 hours
 
@@ -36,10 +42,18 @@ export async function signInImpl(
     params?: Record<string, any>;
     verifier?: string;
     refreshToken?: string;
+    metadata?: SessionMetadata;
+    reauthenticate?: boolean;
+    link?: boolean;
+    changeEmail?: boolean;
+    changePhone?: boolean;
   },
   options: {
     generateTokens: boolean;
     allowExtraProviders: boolean;
+    // Set by `signInViaProvider`, the calling provider creates
+    // the MFA challenge
+    deferMfa?: boolean;
   },
 ): Promise<
   | { kind: "signedIn"; signedIn: SessionInfo | null }
@@ -49,6 +63,15 @@ export async function signInImpl(
   | { kind: "started"; started: true }
   // OAuth2 and OIDC flows
   | { kind: "redirect"; redirect: string; verifier: string }
+  // Passkey registration and authentication ceremonies
+  | {
+      kind: "passkeyOptions";
+      passkeyOptions: Record<string, any>;
+      verifier: string;
+    }
+  // The first factor was verified, the user has to complete a second one
+  | ({ kind: "mfaRequired" } & MfaRequired)
+  | ({ kind: "mfaDeferred" } & MfaDeferred)
 > {
   if (provider === null && args.refreshToken) {
     const tokens: Tokens = (await callRefreshSession(ctx, {
@@ -62,11 +85,12 @@ export async function signInImpl(
       verifier: args.verifier,
       generateTokens: true,
       allowExtraProviders: options.allowExtraProviders,
+      metadata: args.metadata,
+      sessionDuration: sessionDurationParam(args.params),
+      reauthenticate: args.reauthenticate,
+      mfaChallenge: mfaChallengeParam(args.params),
     });
-    return {
-      kind: "signedIn",
-      signedIn: result,
-    };
+    return signedInOrMfaRequiredOrDeferred(result);
   }
 
   if (provider === null) {
@@ -74,6 +98,31 @@ export async function signInImpl(
       "Cannot sign in: Missing `provider`, `params.code` or `refreshToken`",
     );
   }
+  if (args.link && provider.type !== "oauth" && provider.type !== "oidc") {
+    throw new Error(
+      `Cannot link provider ${provider.id}, only OAuth providers can be linked`,
+    );
+  }
+  if (args.changeEmail && provider.type !== "email") {
+    throw new Error(
+      `Cannot change email via provider ${provider.id}, ` +
+        "only email providers can verify email addresses",
+    );
+  }
+  if (args.changePhone && provider.type !== "phone") {
+    throw new Error(
+      `Cannot change phone via provider ${provider.id}, ` +
+        "only phone providers can verify phone numbers",
+    );
+  }
+  if (
+    mfaChallengeParam(args.params) !== undefined &&
+    (provider.type === "oauth" || provider.type === "oidc")
+  ) {
+    throw new Error(
+      `Cannot complete an MFA challenge via OAuth provider ${provider.id}`,
+    );
+  }
   if (provider.type === "email" || provider.type === "phone") {
     return handleEmailAndPhoneProvider(ctx, provider, args, options);
   }
@@ -83,6 +132,9 @@ export async function signInImpl(
   if (provider.type === "oauth" || provider.type === "oidc") {
     return handleOAuthProvider(ctx, provider, args, options);
   }
+  if (provider.type === "passkey") {
+    return handlePasskeyProvider(ctx, provider, args, options);
+  }
   const _typecheck: never = provider;
   throw new Error(
     `Provider type ${(provider as any).type} is not supported yet`,
@@ -95,55 +147,89 @@ async function handleEmailAndPhoneProvider(
   args: {
     params?: Record<string, any>;
     accountId?: GenericId<"authAccounts">;
+    metadata?: SessionMetadata;
+    reauthenticate?: boolean;
+    changeEmail?: boolean;
+    changePhone?: boolean;
   },
   options: {
     generateTokens: boolean;
     allowExtraProviders: boolean;
+    deferMfa?: boolean;
   },
 ): Promise<
   | { kind: "started"; started: true }
   | { kind: "signedIn"; signedIn: SessionInfoWithTokens }
+  | ({ kind: "mfaRequired" } & MfaRequired)
+  | ({ kind: "mfaDeferred" } & MfaDeferred)
 > {
-  if (args.params?.code !== undefined) {
+  let params = args.params;
+  let accountId = args.accountId;
+  // The code is sent to the email or phone the user enrolled
+  const mfaChallenge = mfaChallengeParam(params);
+  if (mfaChallenge !== undefined) {
+    const account = await callMfaChallengeAccount(ctx, {
+      mfaChallenge,
+      provider: provider.id,
+    });
+    params = {
+      ...params,
+      [provider.type === "email" ? "email" : "phone"]:
+        account.providerAccountId,
+    };
+    accountId = account.accountId;
+  }
+  if (params?.code !== undefined) {
     const result = await callVerifyCodeAndSignIn(ctx, {
-      params: args.params,
+      params,
       provider: provider.id,
       generateTokens: options.generateTokens,
       allowExtraProviders: options.allowExtraProviders,
+      metadata: args.metadata,
+      sessionDuration: sessionDurationParam(params),
+      reauthenticate: args.reauthenticate,
+      mfaChallenge,
+      deferMfa: options.deferMfa,
     });
     if (result === null) {
       throw new Error("Could not verify code");
     }
-    return {
-      kind: "signedIn",
-      signedIn: result as SessionInfoWithTokens,
-    };
+    return signedInOrMfaRequiredOrDeferred(
+      result as SessionInfoWithTokens | MfaRequired | MfaDeferred,
+    );
   }
 
   const code = provider.generateVerificationToken
     ? await provider.generateVerificationToken()
     : generateRandomString(32, alphabet("0-9", "A-Z", "a-z"));
+  const otp = provider.generateOTP ? await provider.generateOTP() : undefined;
   const expirationTime =
     Date.now() +
     (provider.maxAge ?? DEFAULT_EMAIL_VERIFICATION_CODE_DURATION_S) * 1000;
 
   const identifier = await callCreateVerificationCode(ctx, {
     provider: provider.id,
-    accountId: args.accountId,
-    email: args.params?.email,
-    phone: args.params?.phone,
+    accountId,
+    email: params?.email,
+    phone: params?.phone,
     code,
+    otp,
     expirationTime,
     allowExtraProviders: options.allowExtraProviders,
+    sessionDuration: sessionDurationParam(params),
+    reauthenticate: args.reauthenticate,
+    changeEmail: args.changeEmail,
+    changePhone: args.changePhone,
   });
   const destination = await redirectAbsoluteUrl(
     ctx.auth.config,
-    (args.params ?? {}) as { redirectTo: unknown },
+    (params ?? {}) as { redirectTo: unknown },
   );
   const verificationArgs = {
     identifier,
     url: setURLSearchParam(destination, "code", code),
     token: code,
+    otp,
     expires: new Date(expirationTime),
   };
   if (provider.type === "email") {
@@ -179,25 +265,47 @@ async function handleCredentials(
   ctx: EnrichedActionCtx,
   provider: ConvexCredentialsConfig,
   args: {
+    accountId?: GenericId<"authAccounts">;
     params?: Record<string, any>;
+    metadata?: SessionMetadata;
+    reauthenticate?: boolean;
   },
   options: {
     generateTokens: boolean;
+    deferMfa?: boolean;
   },
-): Promise<{ kind: "signedIn"; signedIn: SessionInfo | null }> {
-  const result = await provider.authorize(args.params ?? {}, ctx);
+): Promise<
+  | { kind: "signedIn"; signedIn: SessionInfo | null }
+  | ({ kind: "mfaRequired" } & MfaRequired)
+  | ({ kind: "mfaDeferred" } & MfaDeferred)
+> {
+  let accountId = args.accountId;
+  // The credentials are checked against the account the user enrolled
+  const mfaChallenge = mfaChallengeParam(args.params);
+  if (mfaChallenge !== undefined) {
+    ({ accountId } = await callMfaChallengeAccount(ctx, {
+      mfaChallenge,
+      provider: provider.id,
+    }));
+  }
+  const result = await provider.authorize(args.params ?? {}, ctx, {
+    accountId,
+  });
   if (result === null) {
     return { kind: "signedIn", signedIn: null };
   }
   const idsAndTokens = await callSignIn(ctx, {
     userId: result.userId,
     sessionId: result.sessionId,
+    provider: provider.id,
     generateTokens: options.generateTokens,
+    metadata: args.metadata,
+    sessionDuration: sessionDurationParam(args.params),
+    reauthenticate: args.reauthenticate,
+    mfaChallenge,
+    deferMfa: options.deferMfa,
   });
-  return {
-    kind: "signedIn",
-    signedIn: idsAndTokens,
-  };
+  return signedInOrMfaRequiredOrDeferred(idsAndTokens);
 }
 
 async function handleOAuthProvider(
@@ -206,12 +314,16 @@ async function handleOAuthProvider(
   args: {
     params?: Record<string, any>;
     verifier?: string;
+    metadata?: SessionMetadata;
+    reauthenticate?: boolean;
+    link?: boolean;
   },
   options: {
     allowExtraProviders: boolean;
   },
 ): Promise<
   | { kind: "signedIn"; signedIn: SessionInfoWithTokens | null }
+  | ({ kind: "mfaRequired" } & MfaRequired)
   | { kind: "redirect"; redirect: string; verifier: string }
 > {
   // We have this action because:
@@ -227,16 +339,22 @@ async function handleOAuthProvider(
       verifier: args.verifier,
       generateTokens: true,
       allowExtraProviders: options.allowExtraProviders,
+      metadata: args.metadata,
+      sessionDuration: sessionDurationParam(args.params),
+      reauthenticate: args.reauthenticate,
     });
-    return {
-      kind: "signedIn",
-      signedIn: result as SessionInfoWithTokens | null,
-    };
+    return signedInOrMfaRequired(
+      result as SessionInfoWithTokens | MfaRequired | null,
+    );
   }
   const redirect = new URL(
     requireEnv("CONVEX_SITE_URL") + `/api/auth/signin/${provider.id}`,
   );
-  const verifier = await callVerifier(ctx);
+  const verifier = await callVerifier(ctx, {
+    sessionDuration: sessionDurationParam(args.params),
+    reauthenticate: args.reauthenticate,
+    link: args.link,
+  });
   redirect.searchParams.set("code", verifier);
   if (args.params?.redirectTo !== undefined) {
     if (typeof args.params.redirectTo !== "string") {
@@ -248,3 +366,103 @@ async function handleOAuthProvider(
   }
   return { kind: "redirect", redirect: redirect.toString(), verifier };
 }
+
+async function handlePasskeyProvider(
+  ctx: EnrichedActionCtx,
+  provider: PasskeyConfig,
+  args: {
+    params?: Record<string, any>;
+    verifier?: string;
+    metadata?: SessionMetadata;
+    reauthenticate?: boolean;
+  },
+  options: {
+    generateTokens: boolean;
+  },
+): Promise<
+  | { kind: "signedIn"; signedIn: SessionInfo | null }
+  | ({ kind: "mfaRequired" } & MfaRequired)
+  | {
+      kind: "passkeyOptions";
+      passkeyOptions: Record<string, any>;
+      verifier: string;
+    }
+> {
+  const params = args.params ?? {};
+  const flow = params.flow;
+  if (flow !== "register" && flow !== "signIn") {
+    throw new Error(
+      `Expected \`flow\` to be "register" or "signIn", got ${flow}`,
+    );
+  }
+  const mfaChallenge = mfaChallengeParam(params);
+  if (mfaChallenge !== undefined && flow !== "signIn") {
+    throw new Error('Expected `flow` to be "signIn" with `mfaChallenge`');
+  }
+  const profile: Record<string, any> =
+    flow === "register" ? provider.profile?.(params, ctx) ?? {} : {};
+  // The first call starts the ceremony, the client then passes
+  // the credential created or retrieved by the browser.
+  if (params.credential === undefined) {
+    const { verifier, options: passkeyOptions } = await callPasskeyOptions(
+      ctx,
+      {
+        provider: provider.id,
+        flow,
+        userName: profile.email ?? profile.name,
+      },
+    );
+    return { kind: "passkeyOptions", passkeyOptions, verifier };
+  }
+  if (args.verifier === undefined) {
+    throw new Error("Missing `verifier` for passkey `credential`");
+  }
+  const result = await callVerifyPasskeyAndSignIn(ctx, {
+    provider: provider.id,
+    verifier: args.verifier,
+    credential: params.credential,
+    profile,
+    generateTokens: options.generateTokens,
+    metadata: args.metadata,
+    sessionDuration: sessionDurationParam(params),
+    reauthenticate: args.reauthenticate,
+    mfaChallenge,
+  });
+  return signedInOrMfaRequired(result);
+}
+
+function signedInOrMfaRequired<T extends SessionInfo | null>(
+  result: T | MfaRequired,
+) {
+  return result !== null && "mfaRequired" in result
+    ? { kind: "mfaRequired" as const, ...result }
+    : { kind: "signedIn" as const, signedIn: result };
+}
+
+function signedInOrMfaRequiredOrDeferred<T extends SessionInfo | null>(
+  result: T | MfaRequired | MfaDeferred,
+) {
+  return result !== null && "mfaDeferred" in result
+    ? { kind: "mfaDeferred" as const, ...result }
+    : signedInOrMfaRequired(result);
+}
+
+function mfaChallengeParam(params?: Record<string, any>) {
+  const mfaChallenge = params?.mfaChallenge;
+  if (mfaChallenge !== undefined && typeof mfaChallenge !== "string") {
+    throw new Error(
+      `Expected \`mfaChallenge\` to be a string, got ${mfaChallenge}`,
+    );
+  }
+  return mfaChallenge as string | undefined;
+}
+
+function sessionDurationParam(params?: Record<string, any>) {
+  const sessionDuration = params?.sessionDuration;
+  if (sessionDuration !== undefined && typeof sessionDuration !== "string") {
+    throw new Error(
+      `Expected \`sessionDuration\` to be a string, got ${sessionDuration}`,
+    );
+  }
+  return sessionDuration as string | undefined;
+}
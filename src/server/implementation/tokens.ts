@@ -1,29 +1,201 @@
-import { GenericId } from "convex/values";
-import { ConvexAuthConfig } from "../index.js";
-import { SignJWT, importPKCS8 } from "jose";
+import { GenericId, JSONValue } from "convex/values";
+import { ConvexAuthConfig, JwtAlgorithm } from "../index.js";
+import {
+  JWK,
+  KeyLike,
+  SignJWT,
+  calculateJwkThumbprint,
+  exportJWK,
+  importPKCS8,
+} from "jose";
 import { requireEnv } from "../utils.js";
-import { TOKEN_SUB_CLAIM_DIVIDER } from "./utils.js";
+import { LOG_LEVELS, TOKEN_SUB_CLAIM_DIVIDER, logWithLevel } from "./utils.js";
 
 const DEFAULT_JWT_DURATION_MS = 1000 * 60 * 60; // 1 hour
+const DEFAULT_JWT_ALGORITHM = "RS256";
+
+// Claims set by the library which custom claims cannot override.
+const RESERVED_CLAIMS = [
+  "sub",
+  "iss",
+  "aud",
+  "exp",
+  "iat",
+  "nbf",
+  "jti",
+  "auth_time",
+  "act",
+];
 
 export async function generateToken(
   args: {
     userId: GenericId<"users">;
     sessionId: GenericId<"authSessions">;
+    authTime: number;
+    impersonatorId?: GenericId<"users">;
+    customClaims?: Record<string, JSONValue | undefined>;
   },
   config: ConvexAuthConfig,
 ) {
-  const privateKey = await importPKCS8(requireEnv("JWT_PRIVATE_KEY"), "RS256");
-  const expirationTime = new Date(
-    Date.now() + (config.jwt?.durationMs ?? DEFAULT_JWT_DURATION_MS),
-  );
+  const pkcs8 = requireEnv("JWT_PRIVATE_KEY");
+  const algorithm = signingAlgorithm(pkcs8, config);
+  const privateKey = await importPKCS8(pkcs8, algorithm, {
+    extractable: true,
+  });
+  const expirationTime = new Date(Date.now() + jwtDurationMs(config));
   return await new SignJWT({
+    ...withoutReservedClaims(args.customClaims ?? {}),
     sub: args.userId + TOKEN_SUB_CLAIM_DIVIDER + args.sessionId,
+    auth_time: Math.floor(args.authTime / 1000),
+    // https://datatracker.ietf.org/doc/html/rfc8693#name-act-actor-claim
+    ...(args.impersonatorId !== undefined
+      ? { act: { sub: args.impersonatorId } }
+      : {}),
   })
-    .setProtectedHeader({ alg: "RS256" })
+    .setProtectedHeader({ alg: algorithm, kid: await keyId(privateKey) })
     .setIssuedAt()
     .setIssuer(requireEnv("CONVEX_SITE_URL"))
     .setAudience("convex")
     .setExpirationTime(expirationTime)
     .sign(privateKey);
 }
+
+function withoutReservedClaims(claims: Record<string, JSONValue | undefined>) {
+  const result: Record<string, JSONValue> = {};
+  for (const [claim, value] of Object.entries(claims)) {
+    if (RESERVED_CLAIMS.includes(claim)) {
+      logWithLevel(
+        LOG_LEVELS.WARN,
+        `Ignoring reserved claim \`${claim}\` returned from \`jwtClaims\` callback`,
+      );
+    } else if (value !== undefined) {
+      result[claim] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * The public keys served from `/.well-known/jwks.json`.
+ *
+ * The `JWKS` environment variable can list several keys: the one
+ * matching `JWT_PRIVATE_KEY`, a next key published ahead of
+ * a rotation, and retired keys. A key with a `retiredAt` timestamp
+ * (in milliseconds) is served until every JWT it could have signed
+ * has expired, and is dropped after that.
+ *
+ * Keys without a `kid` get their JWK thumbprint. `generateToken`
+ * sets the `kid` header to the ID of the key matching `JWT_PRIVATE_KEY`.
+ */
+export async function publishedJwks(config: ConvexAuthConfig) {
+  const keys: JWK[] = [];
+  for (const { retiredAt, ...key } of parseJwks()) {
+    if (
+      retiredAt !== undefined &&
+      retiredAt + jwtDurationMs(config) < Date.now()
+    ) {
+      continue;
+    }
+    keys.push({ ...key, kid: key.kid ?? (await calculateJwkThumbprint(key)) });
+  }
+  return { keys };
+}
+
+// The key's algorithm takes precedence, so that the config
+// doesn't have to be deployed together with a new key.
+function signingAlgorithm(pkcs8: string, config: ConvexAuthConfig) {
+  const keyAlgorithm = pkcs8Algorithm(pkcs8);
+  const configAlgorithm = config.jwt?.algorithm;
+  if (
+    keyAlgorithm !== null &&
+    configAlgorithm !== undefined &&
+    keyAlgorithm !== configAlgorithm
+  ) {
+    logWithLevel(
+      LOG_LEVELS.WARN,
+      `\`JWT_PRIVATE_KEY\` is a ${keyAlgorithm} key, ignoring \`jwt.algorithm\` ${configAlgorithm}`,
+    );
+  }
+  return keyAlgorithm ?? configAlgorithm ?? DEFAULT_JWT_ALGORITHM;
+}
+
+// The hex-encoded OIDs of the key algorithms in `PrivateKeyInfo`.
+const KEY_ALGORITHM_OIDS: Record<string, JwtAlgorithm> = {
+  // rsaEncryption
+  "2a864886f70d010101": "RS256",
+  // id-ecPublicKey
+  "2a8648ce3d0201": "ES256",
+  // id-Ed25519
+  "2b6570": "EdDSA",
+};
+
+/**
+ * Read the algorithm identifier of a PKCS#8 private key (RFC 5208):
+ *
+ * PrivateKeyInfo ::= SEQUENCE {
+ *   version INTEGER,
+ *   privateKeyAlgorithm SEQUENCE { algorithm OBJECT IDENTIFIER, ... },
+ *   ...
+ * }
+ */
+function pkcs8Algorithm(pkcs8: string): JwtAlgorithm | null {
+  try {
+    const der = Uint8Array.from(
+      atob(pkcs8.replace(/-----(BEGIN|END) PRIVATE KEY-----|\s/g, "")),
+      (char) => char.charCodeAt(0),
+    );
+    let offset = 0;
+    const readHeader = (tag: number) => {
+      if (der[offset++] !== tag) {
+        throw new Error(`Expected DER tag ${tag}`);
+      }
+      let length = der[offset++];
+      if (length & 0x80) {
+        const lengthBytes = length & 0x7f;
+        length = 0;
+        for (let i = 0; i < lengthBytes; i++) {
+          length = (length << 8) | der[offset++];
+        }
+      }
+      return length;
+    };
+    readHeader(0x30);
+    const versionLength = readHeader(0x02);
+    offset += versionLength;
+    readHeader(0x30);
+    const oidLength = readHeader(0x06);
+    const oid = Array.from(der.subarray(offset, offset + oidLength), (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+    return KEY_ALGORITHM_OIDS[oid] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function jwtDurationMs(config: ConvexAuthConfig) {
+  return config.jwt?.durationMs ?? DEFAULT_JWT_DURATION_MS;
+}
+
+function parseJwks() {
+  const jwks = JSON.parse(requireEnv("JWKS")) as {
+    keys: (JWK & { retiredAt?: number })[];
+  };
+  return jwks.keys;
+}
+
+// The JWK thumbprint (RFC 7638) only covers the public members of the key,
+// so the private key and its public counterpart share the same ID.
+// If the published key has its own `kid`, that one is used instead.
+async function keyId(privateKey: KeyLike) {
+  const thumbprint = await calculateJwkThumbprint(await exportJWK(privateKey));
+  for (const key of parseJwks()) {
+    if (
+      key.kid !== undefined &&
+      (await calculateJwkThumbprint(key)) === thumbprint
+    ) {
+      return key.kid;
+    }
+  }
+  return thumbprint;
+}
@@ -0,0 +1,115 @@
+import { TimeSpan } from "oslo";
+import { createTOTPKeyURI, generateHOTP } from "oslo/otp";
+import { base32, decodeBase64, encodeBase64 } from "oslo/encoding";
+import { requireEnv } from "../utils.js";
+import type { TOTPConfig } from "../../providers/TOTP.js";
+import {
+  AuthProviderMaterializedConfig,
+  ConvexCredentialsConfig,
+} from "../types.js";
+
+const SECRET_BYTES = 20;
+const IV_BYTES = 12;
+
+export function isTOTPProvider(
+  provider: AuthProviderMaterializedConfig,
+): provider is ConvexCredentialsConfig & { totp: TOTPConfig } {
+  return provider.type === "credentials" && "totp" in provider;
+}
+
+export function getTOTPOptions(
+  provider: AuthProviderMaterializedConfig,
+): TOTPConfig {
+  if (!isTOTPProvider(provider)) {
+    throw new Error(`Provider ${provider.id} is not a TOTP provider`);
+  }
+  return provider.totp;
+}
+
+export function generateTOTPSecret() {
+  return crypto.getRandomValues(new Uint8Array(SECRET_BYTES));
+}
+
+export function createTOTPUri(
+  options: TOTPConfig,
+  accountName: string,
+  secret: Uint8Array,
+) {
+  return createTOTPKeyURI(options.issuer, accountName, secret, {
+    digits: options.digits ?? 6,
+    period: new TimeSpan(options.period ?? 30, "s"),
+  });
+}
+
+export function encodeTOTPSecret(secret: Uint8Array) {
+  return base32.encode(secret, { includePadding: false });
+}
+
+/**
+ * Encrypt the secret with AES-GCM, so that it can't be used
+ * to generate codes by anyone with read access to the database.
+ */
+export async function encryptTOTPSecret(
+  options: TOTPConfig,
+  secret: Uint8Array,
+) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await encryptionKey(options),
+    secret,
+  );
+  return `${encodeBase64(iv)}:${encodeBase64(encrypted)}`;
+}
+
+export async function decryptTOTPSecret(
+  options: TOTPConfig,
+  encrypted: string,
+) {
+  const [iv, data] = encrypted.split(":");
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: decodeBase64(iv) },
+      await encryptionKey(options),
+      decodeBase64(data),
+    ),
+  );
+}
+
+/**
+ * Find the time step the code was generated for, within
+ * `window` steps of the current one and after `lastStep`,
+ * so that each code can only be used once.
+ *
+ * @returns the matching time step or `null`
+ */
+export async function matchTOTPCode(
+  options: TOTPConfig,
+  secret: Uint8Array,
+  code: string,
+  lastStep: number | undefined,
+) {
+  const period = options.period ?? 30;
+  const window = options.window ?? 1;
+  const currentStep = Math.floor(Date.now() / 1000 / period);
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    if (lastStep !== undefined && step <= lastStep) {
+      continue;
+    }
+    if ((await generateHOTP(secret, step, options.digits ?? 6)) === code) {
+      return step;
+    }
+  }
+  return null;
+}
+
+async function encryptionKey(options: TOTPConfig) {
+  const key = options.encryptionKey ?? requireEnv("AUTH_TOTP_KEY");
+  return await crypto.subtle.importKey(
+    "raw",
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key)),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
@@ -9,6 +9,7 @@ import {
 } from "convex/server";
 import { GenericId, v } from "convex/values";
 import { GenericDoc } from "../convex_types.js";
+import { authEventType } from "./events.js";
 
 /**
  * The table definitions required by the library.
@@ -45,6 +46,7 @@ export const authTables = {
     phone: v.optional(v.string()),
     phoneVerificationTime: v.optional(v.number()),
     isAnonymous: v.optional(v.boolean()),
+    disabledTime: v.optional(v.number()),
   })
     .index("email", ["email"])
     .index("phone", ["phone"]),
@@ -56,7 +58,16 @@ export const authTables = {
   authSessions: defineTable({
     userId: v.id("users"),
     expirationTime: v.number(),
-  }).index("userId", ["userId"]),
+    authTime: v.optional(v.number()),
+    impersonatorId: v.optional(v.id("users")),
+    lastRefreshTime: v.optional(v.number()),
+    userAgent: v.optional(v.string()),
+    ipAddress: v.optional(v.string()),
+    deviceLabel: v.optional(v.string()),
+    inactiveDurationMs: v.optional(v.number()),
+  })
+    .index("userId", ["userId"])
+    .index("expirationTime", ["expirationTime"]),
   /**
    * Accounts. An account corresponds to
    * a single authentication provider.
@@ -69,6 +80,11 @@ export const authTables = {
     secret: v.optional(v.string()),
     emailVerified: v.optional(v.string()),
     phoneVerified: v.optional(v.string()),
+    // The last used TOTP time step, missing until enrollment is confirmed,
+    // or the passkey's signature counter
+    counter: v.optional(v.number()),
+    // The passkey's public key
+    publicKey: v.optional(v.string()),
   })
     .index("userIdAndProvider", ["userId", "provider"])
     .index("providerAndAccountId", ["provider", "providerAccountId"]),
@@ -81,7 +97,9 @@ export const authTables = {
   authRefreshTokens: defineTable({
     sessionId: v.id("authSessions"),
     expirationTime: v.number(),
-  }).index("sessionId", ["sessionId"]),
+  })
+    .index("sessionId", ["sessionId"])
+    .index("expirationTime", ["expirationTime"]),
   /**
    * Verification codes:
    * - OTP tokens
@@ -94,18 +112,45 @@ export const authTables = {
     code: v.string(),
     expirationTime: v.number(),
     verifier: v.optional(v.string()),
+    // SHA-256 hash of the short code sent along with a magic link
+    otp: v.optional(v.string()),
     emailVerified: v.optional(v.string()),
     phoneVerified: v.optional(v.string()),
+    sessionDuration: v.optional(v.string()),
+    reauthenticate: v.optional(v.boolean()),
+    // The session which started the reauthentication
+    sessionId: v.optional(v.id("authSessions")),
+    changeEmail: v.optional(v.boolean()),
+    changePhone: v.optional(v.boolean()),
   })
     .index("accountId", ["accountId"])
-    .index("code", ["code"]),
+    .index("code", ["code"])
+    .index("otp", ["otp"])
+    .index("expirationTime", ["expirationTime"]),
+  /**
+   * One-time MFA recovery codes.
+   */
+  authRecoveryCodes: defineTable({
+    accountId: v.id("authAccounts"),
+    // SHA-256 hash of the code
+    code: v.string(),
+  }).index("accountIdAndCode", ["accountId", "code"]),
   /**
-   * PKCE verifiers for OAuth.
+   * PKCE verifiers for OAuth, passkey and MFA challenges.
    */
   authVerifiers: defineTable({
     sessionId: v.optional(v.id("authSessions")),
+    // The user who has to complete the MFA challenge
+    userId: v.optional(v.id("users")),
     signature: v.optional(v.string()),
-  }).index("signature", ["signature"]),
+    challenge: v.optional(v.string()),
+    sessionDuration: v.optional(v.string()),
+    reauthenticate: v.optional(v.boolean()),
+    link: v.optional(v.boolean()),
+  })
+    .index("signature", ["signature"])
+    .index("userId", ["userId"])
+    .index("sessionId", ["sessionId"]),
   /**
    * Rate limits for OTP and password sign-in.
    */
@@ -113,7 +158,19 @@ export const authTables = {
     identifier: v.string(),
     lastAttemptTime: v.number(),
     attemptsLeft: v.number(),
-  }).index("identifier", ["identifier"]),
+  })
+    .index("identifier", ["identifier"])
+    .index("lastAttemptTime", ["lastAttemptTime"]),
+  /**
+   * Audit log of sign-ins, sign-outs and other security events.
+   * Only written to when `auditLog.enabled` is set.
+   */
+  authEvents: defineTable({
+    type: authEventType,
+    userId: v.optional(v.id("users")),
+    sessionId: v.optional(v.id("authSessions")),
+    provider: v.optional(v.string()),
+  }).index("userId", ["userId"]),
 };
 
 const defaultSchema = defineSchema(authTables);
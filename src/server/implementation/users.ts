@@ -2,9 +2,16 @@ import { GenericId } from "convex/values";
 import { Doc, MutationCtx, QueryCtx } from "./types.js";
 import { AuthProviderMaterializedConfig, ConvexAuthConfig } from "../types.js";
 import { LOG_LEVELS, logWithLevel } from "./utils.js";
+import { recordAuthEvent } from "./events.js";
 
 type CreateOrUpdateUserArgs = {
-  type: "oauth" | "credentials" | "email" | "phone" | "verification";
+  type:
+    | "oauth"
+    | "credentials"
+    | "email"
+    | "phone"
+    | "passkey"
+    | "verification";
   provider: AuthProviderMaterializedConfig;
   profile: Record<string, unknown> & {
     email?: string;
@@ -27,6 +34,11 @@ export async function upsertUserAndAccount(
       },
   args: CreateOrUpdateUserArgs,
   config: ConvexAuthConfig,
+  /**
+   * Link a new account to this user, instead of looking up
+   * an existing user via verified email or phone.
+   */
+  linkToUserId?: GenericId<"users">,
 ): Promise<{
   userId: GenericId<"users">;
   accountId: GenericId<"authAccounts">;
@@ -37,8 +49,15 @@ export async function upsertUserAndAccount(
     "existingAccount" in account ? account.existingAccount : null,
     args,
     config,
+    linkToUserId,
+  );
+  const accountId = await createOrUpdateAccount(
+    ctx,
+    userId,
+    account,
+    args,
+    config,
   );
-  const accountId = await createOrUpdateAccount(ctx, userId, account, args);
   return { userId, accountId };
 }
 
@@ -48,13 +67,15 @@ async function defaultCreateOrUpdateUser(
   existingAccount: Doc<"authAccounts"> | null,
   args: CreateOrUpdateUserArgs,
   config: ConvexAuthConfig,
+  linkToUserId?: GenericId<"users">,
 ) {
   logWithLevel(LOG_LEVELS.DEBUG, "defaultCreateOrUpdateUser args:", {
     existingAccountId: existingAccount?._id,
     existingSessionId,
+    linkToUserId,
     args,
   });
-  const existingUserId = existingAccount?.userId ?? null;
+  const existingUserId = existingAccount?.userId ?? linkToUserId ?? null;
   if (config.callbacks?.createOrUpdateUser !== undefined) {
     logWithLevel(LOG_LEVELS.DEBUG, "Using custom createOrUpdateUser callback");
     return await config.callbacks.createOrUpdateUser(ctx, {
@@ -191,7 +212,15 @@ async function createOrUpdateAccount(
         secret?: string;
       },
   args: CreateOrUpdateUserArgs,
+  config: ConvexAuthConfig,
 ) {
+  const isLinking =
+    "existingAccount" in account
+      ? account.existingAccount.userId !== userId
+      : (await ctx.db
+          .query("authAccounts")
+          .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+          .first()) !== null;
   const accountId =
     "existingAccount" in account
       ? account.existingAccount._id
@@ -209,6 +238,13 @@ async function createOrUpdateAccount(
   ) {
     await ctx.db.patch(accountId, { userId });
   }
+  if (isLinking) {
+    await recordAuthEvent(ctx, config, {
+      type: "accountLinked",
+      userId,
+      provider: args.provider.id,
+    });
+  }
   if (args.profile.emailVerified) {
     await ctx.db.patch(accountId, { emailVerified: args.profile.email });
   }
@@ -8,6 +8,15 @@ export function stringToNumber(value: string | undefined) {
   return value !== undefined ? Number(value) : undefined;
 }
 
+export function validateBatchSize(batchSize: number) {
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(
+      `Invalid \`batchSize\` ${batchSize}, expected a positive integer`,
+    );
+  }
+  return batchSize;
+}
+
 export async function sha256(input: string) {
   return encodeHex(await rawSha256(new TextEncoder().encode(input)));
 }
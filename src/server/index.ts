@@ -15,19 +15,39 @@ export {
   convexAuth,
   getAuthUserId,
   getAuthSessionId,
+  getAuthImpersonatorId,
+  listSessions,
+  revokeSession,
+  requireRecentAuth,
+  listAuthEvents,
+  listAccounts,
+  unlinkAccount,
+  deleteUser,
+  disableUser,
+  enableUser,
   createAccount,
   retrieveAccount,
   signInViaProvider,
+  impersonateUser,
   invalidateSessions,
   modifyAccountCredentials,
+  enrollTOTP,
+  verifyTOTP,
+  generateRecoveryCodes,
+  verifyRecoveryCode,
+  countRecoveryCodes,
 } from "./implementation/index.js";
 export type {
   ConvexAuthConfig,
+  JwtAlgorithm,
+  SignInMethod,
   AuthProviderConfig,
   EmailConfig,
   EmailUserConfig,
   PhoneConfig,
   PhoneUserConfig,
+  PasskeyConfig,
+  PasskeyUserConfig,
   ConvexCredentialsConfig,
   GenericActionCtxWithAuthConfig,
   AuthProviderMaterializedConfig,
@@ -8,13 +8,16 @@ import {
 import { Theme } from "@auth/core/types";
 import {
   AnyDataModel,
+  DocumentByName,
   GenericActionCtx,
   GenericDataModel,
   GenericMutationCtx,
+  WithoutSystemFields,
 } from "convex/server";
-import { GenericId, Value } from "convex/values";
+import { GenericId, JSONValue, Value } from "convex/values";
 import { ConvexCredentialsUserConfig } from "../providers/ConvexCredentials.js";
 import { GenericDoc } from "./convex_types.js";
+import { Doc } from "./implementation/types.js";
 
 /**
  * The config for the Convex Auth library, passed to `convexAuth`.
@@ -49,6 +52,34 @@ export type ConvexAuthConfig = {
      * Defaults to 30 days.
      */
     inactiveDurationMs?: number;
+    /**
+     * Override the session durations for a single sign-in, based on
+     * the `sessionDuration` param passed to `signIn`, such as
+     * a "remember me" checkbox:
+     *
+     * ```ts
+     * export const { auth, signIn, signOut, store } = convexAuth({
+     *   providers: [Password],
+     *   session: {
+     *     totalDurationMs: 1000 * 60 * 60 * 12, // 12 hours
+     *     durationsForHint: (hint) =>
+     *       hint === "rememberMe"
+     *         ? { totalDurationMs: 1000 * 60 * 60 * 24 * 90 } // 90 days
+     *         : {},
+     *   },
+     * });
+     * ```
+     *
+     * For OAuth, magic link and OTP sign-in the hint can be passed
+     * when the flow is started, or when the code is verified.
+     *
+     * Durations which aren't returned fall back to `totalDurationMs`
+     * and `inactiveDurationMs`. Not called when the param is missing.
+     */
+    durationsForHint?: (hint: string) => {
+      totalDurationMs?: number;
+      inactiveDurationMs?: number;
+    };
   };
   /**
    * JWT configuration.
@@ -60,6 +91,20 @@ export type ConvexAuthConfig = {
      * Defaults to 1 hour.
      */
     durationMs?: number;
+    /**
+     * The algorithm used to sign the JWT if it can't be detected
+     * from `JWT_PRIVATE_KEY`. The algorithm of the key takes
+     * precedence, you can generate `ES256` or `EdDSA` keys via:
+     *
+     * ```sh
+     * npx @convex-dev/auth --jwt-algorithm ES256
+     * ```
+     *
+     * `ES256` and `EdDSA` produce smaller tokens than `RS256`.
+     *
+     * Defaults to `RS256`.
+     */
+    algorithm?: JwtAlgorithm;
   };
   /**
    * Sign-in configuration.
@@ -74,6 +119,65 @@ export type ConvexAuthConfig = {
      */
     maxFailedAttempsPerHour?: number;
   };
+  /**
+   * Multi-factor authentication configuration.
+   *
+   * When a second factor is required, `signIn` returns an `mfaRequired`
+   * challenge instead of tokens after the first factor, and the client
+   * completes it by passing `mfaChallenge` to `signIn` with one of the
+   * `factors` providers:
+   *
+   * ```ts
+   * export const { auth, signIn, signOut, store } = convexAuth({
+   *   providers: [Password, TOTP({ issuer: "My App" })],
+   *   mfa: { factors: ["totp"] },
+   * });
+   * ```
+   */
+  mfa?: {
+    /**
+     * IDs of the providers which can complete the challenge,
+     * such as TOTP, passkey or phone providers.
+     */
+    factors: string[];
+    /**
+     * Whether the user has to complete a second factor, given the
+     * other `factors` they enrolled in. Users who haven't enrolled in any
+     * factor can't complete the challenge, so requiring it blocks
+     * their sign-in.
+     *
+     * Defaults to requiring it from users who enrolled
+     * in at least one factor.
+     */
+    required?:
+      | boolean
+      | ((
+          ctx: GenericMutationCtx<AnyDataModel>,
+          args: { userId: GenericId<"users">; factors: string[] },
+        ) => boolean | Promise<boolean>);
+    /**
+     * How long the client has to complete the challenge.
+     *
+     * Defaults to 5 minutes.
+     */
+    challengeDurationMs?: number;
+  };
+  /**
+   * Audit log configuration.
+   */
+  auditLog?: {
+    /**
+     * Whether to record sign-ins, failed sign-in attempts, sign-outs,
+     * refresh token reuse, rate limit lockouts, password, email and phone
+     * changes,
+     * account linking and session invalidation in the `authEvents` table.
+     *
+     * Read the recorded events via `listAuthEvents`.
+     *
+     * Defaults to `false`.
+     */
+    enabled?: boolean;
+  };
   callbacks?: {
     /**
      * Control which URLs are allowed as a destination after OAuth sign-in
@@ -141,7 +245,13 @@ export type ConvexAuthConfig = {
          * The provider type or "verification" if this callback is called
          * after an email or phone token verification.
          */
-        type: "oauth" | "credentials" | "email" | "phone" | "verification";
+        type:
+          | "oauth"
+          | "credentials"
+          | "email"
+          | "phone"
+          | "passkey"
+          | "verification";
         /**
          * The provider used for the sign-in, or the provider
          * tied to the account which is having the email or phone verified.
@@ -196,7 +306,13 @@ export type ConvexAuthConfig = {
          * The provider type or "verification" if this callback is called
          * after an email or phone token verification.
          */
-        type: "oauth" | "credentials" | "email" | "phone" | "verification";
+        type:
+          | "oauth"
+          | "credentials"
+          | "email"
+          | "phone"
+          | "passkey"
+          | "verification";
         /**
          * The provider used for the sign-in, or the provider
          * tied to the account which is having the email or phone verified.
@@ -221,13 +337,278 @@ export type ConvexAuthConfig = {
         shouldLink?: boolean;
       },
     ) => Promise<void>;
+    /**
+     * Add custom claims to the JWT issued for a session.
+     *
+     * The claims are then available in your functions via
+     * `ctx.auth.getUserIdentity()`, which avoids loading
+     * the user document just to check a role or an organization:
+     *
+     * ```ts
+     * import { convexAuth } from "@convex-dev/auth/server";
+     *
+     * export const { auth, signIn, signOut, store } = convexAuth({
+     *   providers: [],
+     *   callbacks: {
+     *     async jwtClaims(ctx, { userId }) {
+     *       const user = await ctx.db.get(userId);
+     *       return { role: user?.role, email: user?.email };
+     *     },
+     *   },
+     * });
+     * ```
+     *
+     * This callback is called every time a JWT is generated,
+     * during sign-in and on every session refresh.
+     *
+     * The reserved claims `sub`, `iss`, `aud`, `exp`, `iat`, `nbf`,
+     * `jti` and `auth_time` cannot be overridden and are ignored if returned.
+     */
+    jwtClaims?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The ID of the user the JWT is issued for.
+         */
+        userId: GenericId<"users">;
+        /**
+         * The ID of the session the JWT is issued for.
+         */
+        sessionId: GenericId<"authSessions">;
+      },
+    ) => Promise<Record<string, JSONValue | undefined>>;
+    /**
+     * Perform additional writes after a session is created,
+     * for example to keep a presence table or sign-in counters
+     * up to date:
+     *
+     * ```ts
+     * import { convexAuth } from "@convex-dev/auth/server";
+     *
+     * export const { auth, signIn, signOut, store } = convexAuth({
+     *   providers: [],
+     *   callbacks: {
+     *     async onSignIn(ctx, { session, user, method }) {
+     *       await ctx.db.insert("presence", {
+     *         userId: user._id,
+     *         sessionId: session._id,
+     *         method,
+     *       });
+     *     },
+     *   },
+     * });
+     * ```
+     *
+     * This callback runs in the same mutation as the session creation,
+     * so if it throws the sign-in fails. It is not called when the user
+     * reauthenticates an existing session.
+     */
+    onSignIn?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The newly created session.
+         */
+        session: Doc<"authSessions">;
+        /**
+         * The user who signed in.
+         */
+        user: Doc<"users">;
+        /**
+         * The ID of the provider used to sign in, if known.
+         */
+        provider: string | null;
+        /**
+         * How the user signed in.
+         */
+        method: SignInMethod;
+      },
+    ) => Promise<void>;
+    /**
+     * Perform additional writes after the user signs out
+     * and their session is deleted.
+     *
+     * Not called when sessions expire or are invalidated.
+     */
+    onSignOut?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The session that was deleted.
+         */
+        session: Doc<"authSessions">;
+        /**
+         * The user who signed out.
+         */
+        user: Doc<"users">;
+      },
+    ) => Promise<void>;
+    /**
+     * Perform additional writes after a session is refreshed
+     * and new tokens are issued, which happens every time the JWT
+     * is about to expire while the client is active.
+     */
+    onSessionRefreshed?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The refreshed session.
+         */
+        session: Doc<"authSessions">;
+        /**
+         * The user the session belongs to.
+         */
+        user: Doc<"users">;
+      },
+    ) => Promise<void>;
+    /**
+     * Perform additional writes after a failed sign-in attempt,
+     * when an invalid password or an invalid, expired or already used
+     * verification code is provided.
+     *
+     * The writes are committed even though the sign-in fails.
+     */
+    onSignInFailed?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The user whose credentials were checked, if known.
+         */
+        user: Doc<"users"> | null;
+        /**
+         * The ID of the provider used to sign in, if known.
+         */
+        provider: string | null;
+        /**
+         * How the user tried to sign in, if known.
+         */
+        method: SignInMethod | null;
+      },
+    ) => Promise<void>;
+    /**
+     * Perform additional writes after the user verified a new email
+     * address via `changeEmail`, for example to notify the previous
+     * address:
+     *
+     * ```ts
+     * import { convexAuth } from "@convex-dev/auth/server";
+     * import { internal } from "./_generated/api";
+     *
+     * export const { auth, signIn, signOut, store } = convexAuth({
+     *   providers: [ResendOTP],
+     *   callbacks: {
+     *     async onEmailChanged(ctx, { user, previousEmail }) {
+     *       if (previousEmail !== null) {
+     *         await ctx.scheduler.runAfter(0, internal.emails.emailChanged, {
+     *           to: previousEmail,
+     *           newEmail: user.email,
+     *         });
+     *       }
+     *     },
+     *   },
+     * });
+     * ```
+     *
+     * This callback runs in the same mutation as the email change,
+     * so if it throws the change fails.
+     */
+    onEmailChanged?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The user with the new email address.
+         */
+        user: Doc<"users">;
+        /**
+         * The user's email address before the change, if any.
+         */
+        previousEmail: string | null;
+      },
+    ) => Promise<void>;
+    /**
+     * Perform additional writes after the user verified a new phone
+     * number via `changePhone`, for example to schedule a notification
+     * to the previous number.
+     *
+     * This callback runs in the same mutation as the phone change,
+     * so if it throws the change fails.
+     */
+    onPhoneChanged?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The user with the new phone number.
+         */
+        user: Doc<"users">;
+        /**
+         * The user's phone number before the change, if any.
+         */
+        previousPhone: string | null;
+      },
+    ) => Promise<void>;
+    /**
+     * Perform additional writes after the user used one of their
+     * recovery codes, for example to schedule an email alerting them
+     * in case their codes were stolen:
+     *
+     * ```ts
+     * import { convexAuth } from "@convex-dev/auth/server";
+     * import { internal } from "./_generated/api";
+     *
+     * export const { auth, signIn, signOut, store } = convexAuth({
+     *   providers: [Password, TOTP({ issuer: "My App" }), RecoveryCodes()],
+     *   mfa: { factors: ["totp", "recovery-code"] },
+     *   callbacks: {
+     *     async onRecoveryCodeUsed(ctx, { user, codesLeft }) {
+     *       await ctx.scheduler.runAfter(0, internal.emails.recoveryCodeUsed, {
+     *         to: user.email,
+     *         codesLeft,
+     *       });
+     *     },
+     *   },
+     * });
+     * ```
+     *
+     * This callback runs in the same mutation as the code check,
+     * so if it throws the code can't be used.
+     */
+    onRecoveryCodeUsed?: (
+      ctx: GenericMutationCtx<AnyDataModel>,
+      args: {
+        /**
+         * The user who used the code.
+         */
+        user: Doc<"users">;
+        /**
+         * How many unused codes the user has left.
+         */
+        codesLeft: number;
+      },
+    ) => Promise<void>;
   };
 };
 
+/**
+ * How a session was created, passed to the `onSignIn`
+ * and `onSignInFailed` callbacks.
+ */
+export type SignInMethod =
+  | "oauth"
+  | "credentials"
+  | "email"
+  | "phone"
+  | "passkey"
+  | "impersonation";
+
+/**
+ * The algorithms supported for signing JWTs.
+ */
+export type JwtAlgorithm = "RS256" | "ES256" | "EdDSA";
+
 /**
  * Same as Auth.js provider configs, but adds phone provider
  * for verification via SMS or another phone-number-connected messaging
- * service.
+ * service, and passkey provider for sign-in via WebAuthn.
  */
 export type AuthProviderConfig =
   | Exclude<
@@ -237,7 +618,9 @@ export type AuthProviderConfig =
   | ConvexCredentialsConfig
   | ((...args: any) => ConvexCredentialsConfig)
   | PhoneConfig
-  | ((...args: any) => PhoneConfig);
+  | ((...args: any) => PhoneConfig)
+  | PasskeyConfig
+  | ((...args: any) => PasskeyConfig);
 
 /**
  * Extends the standard Auth.js email provider config
@@ -246,6 +629,24 @@ export type AuthProviderConfig =
 export interface EmailConfig<
   DataModel extends GenericDataModel = GenericDataModel,
 > extends AuthjsEmailConfig {
+  /**
+   * Send the email verification request.
+   *
+   * When {@link EmailConfig.generateOTP} is set, `otp`
+   * is the short code to include alongside the `url`.
+   */
+  sendVerificationRequest: (
+    params: Parameters<AuthjsEmailConfig["sendVerificationRequest"]>[0] & {
+      otp?: string;
+    },
+  ) => ReturnType<AuthjsEmailConfig["sendVerificationRequest"]>;
+  /**
+   * Set this to send a short OTP in the same email as the magic
+   * link. The OTP can be typed in instead of clicking the link,
+   * and must be accompanied with the `email` it was sent to.
+   * Using either one invalidates the other.
+   */
+  generateOTP?: () => Promise<string>;
   /**
    * Before the token is verified, check other
    * provided parameters.
@@ -292,6 +693,10 @@ export interface PhoneConfig<
       expires: Date;
       provider: PhoneConfig;
       token: string;
+      /**
+       * Set when {@link PhoneConfig.generateOTP} is configured.
+       */
+      otp?: string;
     },
     ctx: GenericActionCtxWithAuthConfig<DataModel>,
   ) => Promise<void>;
@@ -308,6 +713,12 @@ export interface PhoneConfig<
    * @returns
    */
   generateVerificationToken?: () => Promise<string>;
+  /**
+   * Set this to send a short OTP in the same message as the
+   * link. The OTP must be accompanied with the `phone` it was
+   * sent to. Using either one invalidates the other.
+   */
+  generateOTP?: () => Promise<string>;
   /**
    * Normalize the phone number.
    * @param identifier Passed as `phone` in params of `signIn`.
@@ -338,6 +749,55 @@ export type PhoneUserConfig<
   DataModel extends GenericDataModel = GenericDataModel,
 > = Omit<Partial<PhoneConfig<DataModel>>, "options" | "type">;
 
+/**
+ * Passkey provider config, for registering and signing in
+ * with WebAuthn credentials.
+ */
+export interface PasskeyConfig<
+  DataModel extends GenericDataModel = GenericDataModel,
+> {
+  id: string;
+  type: "passkey";
+  /**
+   * The name of your app shown by the browser
+   * when the user creates a passkey.
+   */
+  rpName: string;
+  /**
+   * The origin of your app. The passkeys are scoped to its hostname.
+   * Defaults to `process.env.SITE_URL`.
+   */
+  origin?: string;
+  /**
+   * How long the user has to complete the ceremony
+   * after it was started, in seconds.
+   */
+  maxAge: number;
+  /**
+   * Whether the authenticator must verify the user,
+   * for example via biometrics or a PIN.
+   */
+  userVerification: "required" | "preferred" | "discouraged";
+  /**
+   * The profile of a new user registering a passkey
+   * without being signed in.
+   *
+   * @param params The values passed to the `signIn` function.
+   */
+  profile?: (
+    params: Record<string, Value | undefined>,
+    ctx: GenericActionCtxWithAuthConfig<DataModel>,
+  ) => WithoutSystemFields<DocumentByName<DataModel, "users">>;
+  options: PasskeyUserConfig<DataModel>;
+}
+
+/**
+ * Configurable options for a passkey provider config.
+ */
+export type PasskeyUserConfig<
+  DataModel extends GenericDataModel = GenericDataModel,
+> = Omit<Partial<PasskeyConfig<DataModel>>, "options" | "type">;
+
 /**
  * Similar to Auth.js Credentials config.
  */
@@ -374,4 +834,5 @@ export type AuthProviderMaterializedConfig =
   | OAuth2Config<any>
   | EmailConfig
   | PhoneConfig
+  | PasskeyConfig
   | ConvexCredentialsConfig;
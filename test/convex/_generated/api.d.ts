@@ -18,7 +18,9 @@ import type * as auth from "../auth.js";
 import type * as helpers from "../helpers.js";
 import type * as http from "../http.js";
 import type * as messages from "../messages.js";
+import type * as mfa from "../mfa.js";
 import type * as otp_FakePhone from "../otp/FakePhone.js";
+import type * as otp_ResendLinkAndOTP from "../otp/ResendLinkAndOTP.js";
 import type * as otp_ResendOTP from "../otp/ResendOTP.js";
 import type * as otp_TwilioOTP from "../otp/TwilioOTP.js";
 import type * as otp_TwilioSDK from "../otp/TwilioSDK.js";
@@ -41,7 +43,9 @@ declare const fullApi: ApiFromModules<{
   helpers: typeof helpers;
   http: typeof http;
   messages: typeof messages;
+  mfa: typeof mfa;
   "otp/FakePhone": typeof otp_FakePhone;
+  "otp/ResendLinkAndOTP": typeof otp_ResendLinkAndOTP;
   "otp/ResendOTP": typeof otp_ResendOTP;
   "otp/TwilioOTP": typeof otp_TwilioOTP;
   "otp/TwilioSDK": typeof otp_TwilioSDK;
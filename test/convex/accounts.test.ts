@@ -1,13 +1,17 @@
 import { convexTest } from "convex-test";
 import { decodeJwt } from "jose";
-import { expect, test } from "vitest";
-import { api } from "./_generated/api";
+import { expect, test, vi } from "vitest";
+import { deleteUser, disableUser, enableUser } from "@convex-dev/auth/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
 import schema from "./schema";
+import { lifecycleCalls } from "./test.config";
 import {
   AUTH_RESEND_KEY,
   CONVEX_SITE_URL,
   JWKS,
   JWT_PRIVATE_KEY,
+  mockResendOTP,
   signInViaGitHub,
   signInViaMagicLink,
   signInViaOTP,
@@ -114,6 +118,409 @@ test("automatic linking for password email verification", async () => {
   });
 });
 
+test("listing and unlinking accounts", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  await signInViaMagicLink(t, "resend", "sarah@gmail.com");
+  const { tokens } = await signInViaGitHub(t, "github", {
+    email: "sarah@gmail.com",
+    name: "Sarah",
+    id: "someGitHubId",
+  });
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+
+  const accounts = await asSarah.action(api.auth.listAccounts);
+  expect(accounts).toHaveLength(2);
+  expect(accounts).toContainEqual(
+    expect.objectContaining({
+      provider: "github",
+      providerAccountId: "someGitHubId",
+      emailVerified: null,
+    }),
+  );
+  expect(accounts).toContainEqual(
+    expect.objectContaining({
+      provider: "resend",
+      providerAccountId: "sarah@gmail.com",
+      emailVerified: "sarah@gmail.com",
+    }),
+  );
+  expect(accounts[0]).not.toHaveProperty("secret");
+
+  const github = accounts.find(({ provider }) => provider === "github")!;
+  const resend = accounts.find(({ provider }) => provider === "resend")!;
+  await asSarah.action(api.auth.unlinkAccount, {
+    accountId: github.accountId,
+  });
+  expect(await asSarah.action(api.auth.listAccounts)).toMatchObject([
+    { accountId: resend.accountId },
+  ]);
+  await expect(
+    asSarah.action(api.auth.unlinkAccount, { accountId: resend.accountId }),
+  ).rejects.toThrow("CannotUnlinkLastAccount");
+
+  // Only the user's own accounts can be unlinked
+  const { tokens: otherTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "tom@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  await expect(
+    t
+      .withIdentity({ subject: decodeJwt(otherTokens!.token).sub })
+      .action(api.auth.unlinkAccount, { accountId: resend.accountId }),
+  ).rejects.toThrow("doesn't belong to user");
+});
+
+test("explicit account linking", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  await expect(
+    t.action(api.auth.signIn, { provider: "github", link: true }),
+  ).rejects.toThrow("Cannot link an account without being signed in");
+
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const [sarahId] = decodeJwt(tokens!.token).sub!.split("|");
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "resend",
+      params: { email: "sarah@gmail.com" },
+      link: true,
+    }),
+  ).rejects.toThrow("only OAuth providers can be linked");
+
+  // The GitHub email doesn't match, but the account is linked anyway
+  const { tokens: linkedTokens } = await signInViaGitHub(
+    asSarah,
+    "github",
+    { email: "sarah@github.com", name: "Sarah", id: "sarahGitHubId" },
+    {},
+    { link: true },
+  );
+  expect(decodeJwt(linkedTokens!.token).sub!.split("|")[0]).toBe(sarahId);
+
+  // Another user's GitHub account can't be linked
+  await signInViaGitHub(t, "github", {
+    email: "tom@github.com",
+    name: "Tom",
+    id: "tomGitHubId",
+  });
+  const { tokens: conflictTokens } = await signInViaGitHub(
+    t.withIdentity({ subject: decodeJwt(linkedTokens!.token).sub }),
+    "github",
+    { email: "tom@github.com", name: "Tom", id: "tomGitHubId" },
+    {},
+    { link: true },
+  );
+  expect(conflictTokens).toBeNull();
+
+  await t.run(async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    expect(users).toHaveLength(2);
+    const accounts = await ctx.db.query("authAccounts").collect();
+    expect(accounts).toHaveLength(3);
+    expect(accounts).toContainEqual(
+      expect.objectContaining({
+        provider: "github",
+        providerAccountId: "sarahGitHubId",
+        userId: sarahId,
+      }),
+    );
+  });
+});
+
+test("deleting a user", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+
+  // 1. Sign in via OAuth and via the same email
+  const { tokens } = await signInViaGitHub(t, "github", {
+    email: "sarah@gmail.com",
+    name: "Sarah",
+    id: "someGitHubId",
+  });
+  await signInViaMagicLink(t, "resend", "sarah@gmail.com");
+  const [userId, sessionId] = decodeJwt(tokens!.token).sub!.split("|") as [
+    Id<"users">,
+    Id<"authSessions">,
+  ];
+  await t.run(async (ctx) => {
+    await ctx.db.insert("messages", { userId, body: "Hello" });
+    // A pending MFA challenge, a verifier started by the session
+    // and a rate limit for failed OTP sign-ins
+    await ctx.db.insert("authVerifiers", { userId });
+    await ctx.db.insert("authVerifiers", { sessionId, reauthenticate: true });
+    await ctx.db.insert("authRateLimits", {
+      identifier: "sarah@gmail.com",
+      attemptsLeft: 9,
+      lastAttemptTime: Date.now(),
+    });
+  });
+  await expect(
+    t.run(async (ctx) => {
+      await deleteUser(ctx, userId, { batchSize: 0 });
+    }),
+  ).rejects.toThrow("expected a positive integer");
+
+  // 2. Delete the user, one document per table at a time
+  const isDone = await t.run(async (ctx) => {
+    return await deleteUser(ctx, userId, {
+      batchSize: 1,
+      onDelete: async (ctx, userId) => {
+        const messages = await ctx.db.query("messages").collect();
+        for (const message of messages) {
+          if (message.userId === userId) {
+            await ctx.db.delete(message._id);
+          }
+        }
+      },
+    });
+  });
+  expect(isDone).toBe(false);
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  // 3. Check that no auth data is left
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("users").collect()).toHaveLength(0);
+    expect(await ctx.db.query("authAccounts").collect()).toHaveLength(0);
+    expect(await ctx.db.query("authSessions").collect()).toHaveLength(0);
+    expect(await ctx.db.query("authRefreshTokens").collect()).toHaveLength(0);
+    expect(await ctx.db.query("authVerificationCodes").collect()).toHaveLength(
+      0,
+    );
+    expect(await ctx.db.query("authVerifiers").collect()).toHaveLength(0);
+    expect(await ctx.db.query("authRateLimits").collect()).toHaveLength(0);
+    expect(await ctx.db.query("messages").collect()).toHaveLength(0);
+  });
+
+  // 4. Signing in again creates a new user
+  const { tokens: newTokens } = await signInViaGitHub(t, "github", {
+    email: "sarah@gmail.com",
+    name: "Sarah",
+    id: "someGitHubId",
+  });
+  expect(newTokens).not.toBeNull();
+  vi.useRealTimers();
+});
+
+test("disabling a user", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  // 1. Sign up with a password and via a magic link
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const sarahId = decodeJwt(tokens!.token).sub!.split("|")[0] as Id<"users">;
+  const tomTokens = await signInViaMagicLink(t, "resend", "tom@gmail.com");
+  const tomId = decodeJwt(tomTokens!.token).sub!.split("|")[0] as Id<"users">;
+
+  // 2. Disabling the users deletes their sessions
+  await t.run(async (ctx) => {
+    await disableUser(ctx, sarahId);
+    await disableUser(ctx, tomId);
+  });
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authSessions").collect()).toHaveLength(0);
+  });
+  const { tokens: refreshedTokens } = await t.action(api.auth.signIn, {
+    refreshToken: tokens!.refreshToken,
+  });
+  expect(refreshedTokens).toBeNull();
+
+  // 3. Disabled users can't sign in again
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+      },
+    }),
+  ).rejects.toThrow("UserDisabled");
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: { email: "sarah@gmail.com", password: "wrong", flow: "signIn" },
+    }),
+  ).rejects.toThrow("InvalidSecret");
+  await expect(
+    signInViaMagicLink(t, "resend", "tom@gmail.com"),
+  ).rejects.toThrow("UserDisabled");
+
+  // 4. Enabled users can sign in again
+  await t.run(async (ctx) => {
+    await enableUser(ctx, sarahId);
+  });
+  const { tokens: newTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  expect(newTokens).not.toBeNull();
+});
+
+test("changing email", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "tom@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+
+  // 1. Can't change to another user's email
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "resend-otp",
+      params: { email: "tom@gmail.com" },
+      changeEmail: true,
+    }),
+  ).rejects.toThrow("EmailInUse");
+
+  // 2. Verify the new email via OTP
+  const { code } = await mockResendOTP(
+    async () =>
+      await asSarah.action(api.auth.signIn, {
+        provider: "resend-otp",
+        params: { email: "sarah@outlook.com" },
+        changeEmail: true,
+      }),
+  );
+  const { tokens: newTokens } = await asSarah.action(api.auth.signIn, {
+    provider: "resend-otp",
+    params: { email: "sarah@outlook.com", code },
+    changeEmail: true,
+  });
+  expect(newTokens).not.toBeNull();
+
+  // 3. The email and the password account were updated,
+  // and the original session is still signed in
+  const sessionId = decodeJwt(tokens!.token).sub!.split("|")[1];
+  expect(decodeJwt(newTokens!.token).sub!.split("|")[1]).toBe(sessionId);
+  await t.run(async (ctx) => {
+    const sessions = await ctx.db.query("authSessions").collect();
+    expect(sessions).toHaveLength(2);
+    expect(sessions).toContainEqual(
+      expect.objectContaining({ _id: sessionId }),
+    );
+    const users = await ctx.db.query("users").collect();
+    expect(users).toHaveLength(2);
+    expect(users).toContainEqual(
+      expect.objectContaining({
+        email: "sarah@outlook.com",
+        emailVerificationTime: expect.any(Number),
+      }),
+    );
+    const accounts = await ctx.db.query("authAccounts").collect();
+    expect(accounts).toHaveLength(2);
+    expect(accounts).toContainEqual(
+      expect.objectContaining({ providerAccountId: "sarah@outlook.com" }),
+    );
+  });
+  expect(lifecycleCalls).toContainEqual({
+    callback: "onEmailChanged",
+    user: expect.objectContaining({ email: "sarah@outlook.com" }),
+    previousEmail: "sarah@gmail.com",
+  });
+
+  // 4. Sign in with the new email
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+      },
+    }),
+  ).rejects.toThrow("InvalidAccountId");
+  const { tokens: signInTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: {
+      email: "sarah@outlook.com",
+      password: "44448888",
+      flow: "signIn",
+    },
+  });
+  expect(decodeJwt(signInTokens!.token).sub!.split("|")[0]).toBe(
+    decodeJwt(tokens!.token).sub!.split("|")[0],
+  );
+});
+
+test("importing users", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const importUsers = (dryRun: boolean) =>
+    t.mutation(internal.auth.store, {
+      args: {
+        type: "importUsers",
+        dryRun,
+        users: [
+          {
+            email: "sarah@gmail.com",
+            emailVerificationTime: 1,
+            accounts: [
+              {
+                provider: "password-legacy",
+                providerAccountId: "sarah@gmail.com",
+                secret: "v1:44448888",
+                emailVerified: "sarah@gmail.com",
+              },
+              { provider: "github", providerAccountId: "sarahs-github-id" },
+            ],
+          },
+          { phone: "+1234567890", accounts: [] },
+        ],
+      },
+    });
+
+  // 1. Dry run doesn't write anything
+  expect(await importUsers(true)).toEqual({ imported: 2, conflicts: [] });
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("users").collect()).toHaveLength(0);
+  });
+
+  // 2. Import users and accounts, keeping the password hash
+  expect(await importUsers(false)).toEqual({ imported: 2, conflicts: [] });
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("users").collect()).toHaveLength(2);
+    const accounts = await ctx.db.query("authAccounts").collect();
+    expect(accounts).toMatchObject([
+      { provider: "password-legacy", secret: "v1:44448888" },
+      { provider: "github" },
+    ]);
+    expect(accounts[0].userId).toBe(accounts[1].userId);
+  });
+
+  // 3. Existing users are reported as conflicts
+  expect(await importUsers(false)).toEqual({
+    imported: 0,
+    conflicts: [
+      { index: 0, reason: "EmailInUse" },
+      { index: 1, reason: "PhoneInUse" },
+    ],
+  });
+
+  // 4. Imported users can sign in with their existing password
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password-legacy",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  expect(tokens).not.toBeNull();
+});
+
 test("no linking to untrusted accounts", async () => {
   setupEnv();
   const t = convexTest(schema);
@@ -0,0 +1,190 @@
+import { listAuthEvents } from "@convex-dev/auth/server";
+import { convexTest } from "convex-test";
+import { decodeJwt } from "jose";
+import { expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import {
+  AUTH_RESEND_KEY,
+  CONVEX_SITE_URL,
+  JWKS,
+  JWT_PRIVATE_KEY,
+} from "./test.helpers";
+
+test("audit log", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens: initialTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { sub } = decodeJwt(initialTokens!.token);
+  const [userId, sessionId] = sub!.split("|") as [
+    Id<"users">,
+    Id<"authSessions">,
+  ];
+
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: { email: "sarah@gmail.com", password: "wrong", flow: "signIn" },
+    }),
+  ).rejects.toThrow("InvalidSecret");
+
+  const { tokens: refreshedTokens } = await t.action(api.auth.signIn, {
+    refreshToken: initialTokens!.refreshToken,
+  });
+  expect(refreshedTokens).not.toBeNull();
+  const { tokens: reusedTokens } = await t.action(api.auth.signIn, {
+    refreshToken: initialTokens!.refreshToken,
+  });
+  expect(reusedTokens).toBeNull();
+
+  const { tokens: secondTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  const secondSub = decodeJwt(secondTokens!.token).sub!;
+  const [, secondSessionId] = secondSub.split("|") as [
+    Id<"users">,
+    Id<"authSessions">,
+  ];
+  await t.withIdentity({ subject: secondSub }).action(api.auth.signOut);
+
+  const firstPage = await t.run((ctx) =>
+    listAuthEvents(ctx, userId, { numItems: 3, cursor: null }),
+  );
+  expect(firstPage.page).toHaveLength(3);
+  expect(firstPage.isDone).toBe(false);
+  const secondPage = await t.run((ctx) =>
+    listAuthEvents(ctx, userId, {
+      numItems: 3,
+      cursor: firstPage.continueCursor,
+    }),
+  );
+  expect(secondPage.isDone).toBe(true);
+  const events = [...firstPage.page, ...secondPage.page];
+  expect(events).toHaveLength(5);
+  expect(events).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({
+        type: "signedIn",
+        provider: "password",
+        sessionId,
+      }),
+      expect.objectContaining({ type: "signInFailed", provider: "password" }),
+      expect.objectContaining({ type: "refreshTokenReused", sessionId }),
+      expect.objectContaining({
+        type: "signedIn",
+        provider: "password",
+        sessionId: secondSessionId,
+      }),
+      expect.objectContaining({
+        type: "signedOut",
+        sessionId: secondSessionId,
+      }),
+    ]),
+  );
+
+  vi.useRealTimers();
+});
+
+test("audit log doesn't flag refresh tokens deleted by cleanup", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const userId = decodeJwt(tokens!.token).sub!.split("|")[0] as Id<"users">;
+
+  // The refresh token expires before the session does
+  await t.run(async (ctx) => {
+    for (const refreshToken of await ctx.db
+      .query("authRefreshTokens")
+      .collect()) {
+      await ctx.db.patch(refreshToken._id, {
+        expirationTime: Date.now() - 1000,
+      });
+    }
+  });
+  await t.mutation(internal.auth.cleanup, {});
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authRefreshTokens").collect()).toHaveLength(0);
+  });
+
+  const { tokens: expiredTokens } = await t.action(api.auth.signIn, {
+    refreshToken: tokens!.refreshToken,
+  });
+  expect(expiredTokens).toBeNull();
+
+  const { page } = await t.run((ctx) =>
+    listAuthEvents(ctx, userId, { numItems: 10, cursor: null }),
+  );
+  expect(page.map((event) => event.type)).toEqual(["signedIn"]);
+});
+
+test("audit log of rate limit lockouts", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const [userId] = decodeJwt(tokens!.token).sub!.split("|") as [Id<"users">];
+  // See `maxFailedAttempsPerHour` default
+  for (let i = 0; i < 10; i++) {
+    await expect(
+      t.action(api.auth.signIn, {
+        provider: "password",
+        params: { email: "sarah@gmail.com", password: "wrong", flow: "signIn" },
+      }),
+    ).rejects.toThrow("InvalidSecret");
+  }
+  await t.run(async (ctx) => {
+    const events = await ctx.db.query("authEvents").collect();
+    expect(events.filter(({ type }) => type === "signInFailed")).toHaveLength(
+      10,
+    );
+    expect(events.filter(({ type }) => type === "lockedOut")).toMatchObject([
+      { userId, provider: "password" },
+    ]);
+  });
+});
+
+test("audit log of invalid codes", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const userId = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { email: "tom@gmail.com" });
+    await ctx.db.insert("authAccounts", {
+      userId,
+      provider: "resend-otp",
+      providerAccountId: "tom@gmail.com",
+    });
+    return userId;
+  });
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "resend-otp",
+      params: { email: "tom@gmail.com", code: "wrong" },
+    }),
+  ).rejects.toThrow("Could not verify code");
+  await t.run(async (ctx) => {
+    const events = await ctx.db.query("authEvents").collect();
+    expect(events.filter(({ type }) => type === "signInFailed")).toMatchObject([
+      { userId, provider: "resend-otp" },
+    ]);
+  });
+});
+
+function setupEnv() {
+  process.env.SITE_URL = "http://localhost:5173";
+  process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
+  process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
+  process.env.JWKS = JWKS;
+  process.env.AUTH_RESEND_OTP_KEY = AUTH_RESEND_KEY;
+  process.env.AUTH_LOG_LEVEL = "ERROR";
+}
@@ -3,16 +3,30 @@ import Google from "@auth/core/providers/google";
 import Resend from "@auth/core/providers/resend";
 import Apple from "@auth/core/providers/apple";
 import { Anonymous } from "@convex-dev/auth/providers/Anonymous";
+import { Passkey } from "@convex-dev/auth/providers/Passkey";
 import { Password } from "@convex-dev/auth/providers/Password";
+import { RecoveryCodes } from "@convex-dev/auth/providers/RecoveryCodes";
+import { TOTP } from "@convex-dev/auth/providers/TOTP";
 import { convexAuth } from "@convex-dev/auth/server";
+import { ResendLinkAndOTP } from "./otp/ResendLinkAndOTP";
 import { ResendOTP } from "./otp/ResendOTP";
 import { TwilioOTP } from "./otp/TwilioOTP";
 import { TwilioVerify } from "./otp/TwilioVerify";
 import { ResendOTPPasswordReset } from "./passwordReset/ResendOTPPasswordReset";
 // !publish: remove
 import { FakePhone } from "./otp/FakePhone";
+// !publish: remove
+import { testConfig, testProviders } from "./test.config";
 
-export const { auth, signIn, signOut, store } = convexAuth({
+export const {
+  auth,
+  signIn,
+  signOut,
+  store,
+  cleanup,
+  listAccounts,
+  unlinkAccount,
+} = convexAuth({
   providers: [
     // !publish: remove
     FakePhone,
@@ -31,6 +45,7 @@ export const { auth, signIn, signOut, store } = convexAuth({
       from: process.env.AUTH_EMAIL ?? "My App <onboarding@resend.dev>",
     }),
     ResendOTP,
+    ResendLinkAndOTP,
     TwilioVerify,
     TwilioOTP,
     Password,
@@ -43,5 +58,12 @@ export const { auth, signIn, signOut, store } = convexAuth({
     // This one only makes sense with routing, ignore for now:
     Password({ id: "password-link", verify: Resend }),
     Anonymous,
+    TOTP({ issuer: "Convex Auth Example" }),
+    Passkey({ rpName: "Convex Auth Example" }),
+    RecoveryCodes(),
+    // !publish: remove
+    ...testProviders,
   ],
+  // !publish: remove
+  ...testConfig,
 });
@@ -0,0 +1,75 @@
+import { convexTest } from "convex-test";
+import { expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema from "./schema";
+import { CONVEX_SITE_URL, JWKS, JWT_PRIVATE_KEY } from "./test.helpers";
+
+test("cleanup of expired documents", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  for (const email of ["sarah@gmail.com", "tom@gmail.com"]) {
+    await t.action(api.auth.signIn, {
+      provider: "password",
+      params: { email, password: "44448888", flow: "signUp" },
+    });
+  }
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: { email: "tom@gmail.com", password: "wrong", flow: "signIn" },
+    }),
+  ).rejects.toThrow("InvalidSecret");
+  await t.run(async (ctx) => {
+    await ctx.db.insert("authVerifiers", {});
+  });
+
+  vi.advanceTimersByTime(1000 * 60 * 60 * 24 * 31);
+
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  expect(tokens).not.toBeNull();
+
+  const result = await t.mutation(internal.auth.cleanup, { batchSize: 1 });
+  expect(result).toEqual({
+    deleted: {
+      authSessions: 1,
+      authRefreshTokens: 1,
+      authVerificationCodes: 0,
+      authVerifiers: 1,
+      authRateLimits: 1,
+    },
+    hasMore: true,
+  });
+
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authSessions").collect()).toHaveLength(1);
+    expect(await ctx.db.query("authRefreshTokens").collect()).toHaveLength(1);
+    expect(await ctx.db.query("authVerifiers").collect()).toHaveLength(0);
+    expect(await ctx.db.query("authRateLimits").collect()).toHaveLength(0);
+  });
+
+  vi.useRealTimers();
+});
+
+test("cleanup rejects invalid batch sizes", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  for (const batchSize of [0, -1, 1.5]) {
+    await expect(
+      t.mutation(internal.auth.cleanup, { batchSize }),
+    ).rejects.toThrow("expected a positive integer");
+  }
+});
+
+function setupEnv() {
+  process.env.SITE_URL = "http://localhost:5173";
+  process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
+  process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
+  process.env.JWKS = JWKS;
+  process.env.AUTH_LOG_LEVEL = "ERROR";
+}
@@ -0,0 +1,134 @@
+import { expect, test } from "vitest";
+import {
+  parseUsersFile,
+  passwordHashAlgorithm,
+  prepareImport,
+} from "../../src/cli/importUsers";
+
+const BCRYPT_HASH =
+  "$2b$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy";
+
+test("parsing CSV users", () => {
+  const users = parseUsersFile(
+    [
+      "email,name,emailVerified,oauth:github,oauth:google",
+      'sarah@gmail.com,"Sarah ""Sal"" Smith, Jr.",true,sarahs-github-id,',
+      "",
+      'tom@gmail.com,"Tom\nTompson",no,,toms-google-id\r',
+      "kate@gmail.com,,,,",
+    ].join("\n"),
+    "csv",
+  );
+  expect(users).toEqual([
+    {
+      email: "sarah@gmail.com",
+      name: 'Sarah "Sal" Smith, Jr.',
+      emailVerified: true,
+      oauth: { github: "sarahs-github-id" },
+    },
+    {
+      email: "tom@gmail.com",
+      name: "Tom\nTompson",
+      emailVerified: false,
+      oauth: { google: "toms-google-id" },
+    },
+    { email: "kate@gmail.com" },
+  ]);
+  expect(parseUsersFile("", "csv")).toEqual([]);
+});
+
+test("parsing JSON users", () => {
+  expect(parseUsersFile('[{"email": "sarah@gmail.com"}]', "json")).toEqual([
+    { email: "sarah@gmail.com" },
+  ]);
+  expect(() => parseUsersFile('{"email": "sarah@gmail.com"}', "json")).toThrow(
+    "Expected a JSON array of users",
+  );
+});
+
+test("preparing users for import", () => {
+  const { rows, conflicts } = prepareImport(
+    [
+      {
+        email: "sarah@gmail.com",
+        emailVerified: true,
+        passwordHash: BCRYPT_HASH,
+        oauth: { github: "sarahs-github-id" },
+      },
+      { phone: "+1234567890", phoneVerified: false },
+      { email: "sarah@gmail.com" },
+      { phone: "+1234567890" },
+      { email: "tom@gmail.com", oauth: { github: "sarahs-github-id" } },
+      { passwordHash: BCRYPT_HASH },
+      {
+        email: "kate@gmail.com",
+        passwordHash: "5f4dcc3b5aa765d61d8327deb882cf99",
+      },
+      { email: 42 },
+      // The rejected users' emails and accounts can still be imported
+      { email: "tom@gmail.com", oauth: { google: "toms-google-id" } },
+    ],
+    { passwordProvider: "password" },
+  );
+  expect(rows).toEqual([
+    {
+      row: 1,
+      user: {
+        email: "sarah@gmail.com",
+        emailVerificationTime: expect.any(Number),
+        accounts: [
+          {
+            provider: "password",
+            providerAccountId: "sarah@gmail.com",
+            secret: BCRYPT_HASH,
+            emailVerified: "sarah@gmail.com",
+          },
+          { provider: "github", providerAccountId: "sarahs-github-id" },
+        ],
+      },
+    },
+    { row: 2, user: { phone: "+1234567890", accounts: [] } },
+    {
+      row: 9,
+      user: {
+        email: "tom@gmail.com",
+        accounts: [{ provider: "google", providerAccountId: "toms-google-id" }],
+      },
+    },
+  ]);
+  expect(conflicts).toEqual([
+    { row: 3, email: "sarah@gmail.com", reason: "DuplicateEmail" },
+    { row: 4, phone: "+1234567890", reason: "DuplicatePhone" },
+    {
+      row: 5,
+      email: "tom@gmail.com",
+      reason: "DuplicateAccount",
+      details: "github:sarahs-github-id",
+    },
+    { row: 6, reason: "MissingEmail" },
+    {
+      row: 7,
+      email: "kate@gmail.com",
+      reason: "UnsupportedPasswordHash",
+      details: "Expected a bcrypt, scrypt or argon2 hash",
+    },
+    { row: 8, reason: "InvalidRow", details: expect.any(String) },
+  ]);
+});
+
+test("recognizing password hashes", () => {
+  expect(passwordHashAlgorithm(BCRYPT_HASH)).toBe("bcrypt");
+  expect(
+    passwordHashAlgorithm(
+      "$argon2id$v=19$m=65536,t=3,p=4$c2FsdHNhbHQ$aGFzaGhhc2hoYXNo",
+    ),
+  ).toBe("argon2");
+  expect(passwordHashAlgorithm("$scrypt$ln=16,r=8,p=1$c2FsdA$aGFzaA")).toBe(
+    "scrypt",
+  );
+  expect(passwordHashAlgorithm("0a1b2c:3d4e5f")).toBe("scrypt");
+  // Truncated bcrypt, unsalted MD5 and plaintext
+  expect(passwordHashAlgorithm(BCRYPT_HASH.slice(0, -1))).toBeNull();
+  expect(passwordHashAlgorithm("5f4dcc3b5aa765d61d8327deb882cf99")).toBeNull();
+  expect(passwordHashAlgorithm("hunter2")).toBeNull();
+});
@@ -0,0 +1,359 @@
+import { convexTest } from "convex-test";
+import { decodeJwt } from "jose";
+import { expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import {
+  AUTH_RESEND_KEY,
+  CONVEX_SITE_URL,
+  JWKS,
+  JWT_PRIVATE_KEY,
+  mockResendOTP,
+  signInViaGitHub,
+  signInViaPhone,
+  totpCode,
+} from "./test.helpers";
+import { lifecycleCalls } from "./test.config";
+
+test("second factor via totp", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const signInWithPassword = () =>
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+      },
+    });
+  const signInWithCode = (code: string, mfaChallenge: string) =>
+    t.action(api.auth.signIn, {
+      provider: "totp",
+      params: { code, mfaChallenge },
+    });
+
+  // 1. Users who didn't enroll in a second factor are signed in
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  expect(tokens).not.toBeNull();
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const { secret } = await asSarah.action(api.mfa.startTOTPEnrollment);
+  await asSarah.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: totpCode(secret) },
+  });
+
+  // 2. After enrolling, the password only starts the sign-in
+  const { tokens: noTokens, mfaRequired } = await signInWithPassword();
+  expect(noTokens).toBeUndefined();
+  expect(mfaRequired).toMatchObject({ factors: ["totp"] });
+  const { challenge } = mfaRequired!;
+  await expect(signInWithCode("000000", challenge)).rejects.toThrow(
+    "InvalidCode",
+  );
+  vi.advanceTimersByTime(30_000);
+  const { tokens: newTokens } = await signInWithCode(
+    totpCode(secret),
+    challenge,
+  );
+  expect(decodeJwt(newTokens!.token).sub).toEqual(
+    expect.stringContaining(decodeJwt(tokens!.token).sub!.split("|")[0]),
+  );
+
+  // 3. Each challenge can only be completed once
+  vi.advanceTimersByTime(30_000);
+  await expect(signInWithCode(totpCode(secret), challenge)).rejects.toThrow(
+    "InvalidMfaChallenge",
+  );
+
+  // 4. Only the configured factors complete the challenge
+  const { mfaRequired: secondMfaRequired } = await signInWithPassword();
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+        mfaChallenge: secondMfaRequired!.challenge,
+      },
+    }),
+  ).rejects.toThrow("InvalidMfaChallenge");
+
+  // 5. Challenges expire
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(
+    signInWithCode(totpCode(secret), secondMfaRequired!.challenge),
+  ).rejects.toThrow("InvalidMfaChallenge");
+  vi.useRealTimers();
+});
+
+test("second factor after OAuth sign-in", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const profile = { email: "sarah@gmail.com", name: "Sarah", id: "githubId" };
+  const { tokens } = await signInViaGitHub(t, "github", profile);
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const { secret } = await asSarah.action(api.mfa.startTOTPEnrollment);
+  await asSarah.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: totpCode(secret) },
+  });
+
+  // The code exchange returns the challenge instead of tokens
+  const { tokens: noTokens, mfaRequired } = await signInViaGitHub(
+    t,
+    "github",
+    profile,
+  );
+  expect(noTokens).toBeUndefined();
+  expect(mfaRequired).toMatchObject({ factors: ["totp"] });
+  vi.advanceTimersByTime(30_000);
+  const { tokens: newTokens } = await t.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: totpCode(secret), mfaChallenge: mfaRequired!.challenge },
+  });
+  expect(decodeJwt(newTokens!.token).sub).toContain(
+    decodeJwt(tokens!.token).sub!.split("|")[0],
+  );
+  vi.useRealTimers();
+});
+
+test("second factor after password reset", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password-with-reset",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const { secret } = await asSarah.action(api.mfa.startTOTPEnrollment);
+  await asSarah.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: totpCode(secret) },
+  });
+
+  // The reset code only starts the sign-in, creating a single challenge
+  const { code } = await mockResendOTP(
+    async () =>
+      await t.action(api.auth.signIn, {
+        provider: "password-with-reset",
+        params: { email: "sarah@gmail.com", flow: "reset" },
+      }),
+  );
+  const { tokens: noTokens, mfaRequired } = await t.action(api.auth.signIn, {
+    provider: "password-with-reset",
+    params: {
+      email: "sarah@gmail.com",
+      code,
+      newPassword: "88884444",
+      flow: "reset-verification",
+    },
+  });
+  expect(noTokens).toBeUndefined();
+  expect(mfaRequired).toMatchObject({ factors: ["totp"] });
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authVerifiers").collect()).toEqual([
+      expect.objectContaining({ _id: mfaRequired!.challenge }),
+    ]);
+  });
+  vi.advanceTimersByTime(30_000);
+  const { tokens: newTokens } = await t.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: totpCode(secret), mfaChallenge: mfaRequired!.challenge },
+  });
+  expect(newTokens).not.toBeNull();
+  vi.useRealTimers();
+});
+
+test("unlinking second factors", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const { secret } = await asSarah.action(api.mfa.startTOTPEnrollment);
+  await asSarah.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: totpCode(secret) },
+  });
+  const accounts = await asSarah.action(api.auth.listAccounts);
+  const password = accounts.find(({ provider }) => provider === "password")!;
+  const totp = accounts.find(({ provider }) => provider === "totp")!;
+
+  // 1. The second factor doesn't count as a way to sign in
+  await expect(
+    asSarah.action(api.auth.unlinkAccount, { accountId: password.accountId }),
+  ).rejects.toThrow("CannotUnlinkLastAccount");
+
+  // 2. Unlinking it requires a recent sign-in
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(
+    asSarah.action(api.auth.unlinkAccount, { accountId: totp.accountId }),
+  ).rejects.toThrow("ReauthenticationRequired");
+  await asSarah.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+    reauthenticate: true,
+  });
+  await asSarah.action(api.auth.unlinkAccount, { accountId: totp.accountId });
+  expect(await asSarah.action(api.auth.listAccounts)).toMatchObject([
+    { provider: "password" },
+  ]);
+  vi.useRealTimers();
+});
+
+test("second factor via phone", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const userId = decodeJwt(tokens!.token).sub!.split("|")[0];
+  await t.run(async (ctx) => {
+    await ctx.db.insert("authAccounts", {
+      userId: userId as any,
+      provider: "fake-phone-2",
+      providerAccountId: "+1234567890",
+    });
+  });
+
+  const { mfaRequired } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  expect(mfaRequired).toMatchObject({ factors: ["fake-phone-2"] });
+
+  // The code is sent to the enrolled phone number
+  const newTokens = await signInViaPhone(t, "fake-phone-2", {
+    mfaChallenge: mfaRequired!.challenge,
+  });
+  expect(decodeJwt(newTokens!.token).sub).toContain(userId);
+  const user = await t.run(async (ctx) => ctx.db.get(userId as any));
+  expect(user).toMatchObject({ phone: "+1234567890" });
+});
+
+test("second factor via recovery code", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const signInWithPassword = async () =>
+    (
+      await t.action(api.auth.signIn, {
+        provider: "password",
+        params: {
+          email: "sarah@gmail.com",
+          password: "44448888",
+          flow: "signIn",
+        },
+      })
+    ).mfaRequired!.challenge;
+  const signInWithCode = async (code: string, mfaChallenge?: string) =>
+    t.action(api.auth.signIn, {
+      provider: "recovery-code",
+      params: mfaChallenge !== undefined ? { code, mfaChallenge } : { code },
+    });
+
+  // 1. Generating new codes invalidates the previous ones
+  expect(await asSarah.query(api.mfa.recoveryCodesLeft)).toEqual(0);
+  const previousCodes = await asSarah.action(api.mfa.newRecoveryCodes);
+  const codes = await asSarah.action(api.mfa.newRecoveryCodes);
+  expect(codes).toHaveLength(10);
+  expect(codes[0]).toMatch(/^[a-z0-9]{5}-[a-z0-9]{5}$/);
+  expect(await asSarah.query(api.mfa.recoveryCodesLeft)).toEqual(10);
+  await t.run(async (ctx) => {
+    const stored = await ctx.db.query("authRecoveryCodes").collect();
+    expect(stored).toHaveLength(10);
+    expect(stored.map(({ code }) => code)).not.toContain(codes[0]);
+  });
+  await expect(
+    signInWithCode(previousCodes[0], await signInWithPassword()),
+  ).rejects.toThrow("InvalidCode");
+
+  // 2. A code completes the challenge, regardless of casing
+  lifecycleCalls.length = 0;
+  const { tokens: newTokens } = await signInWithCode(
+    codes[0].toUpperCase(),
+    await signInWithPassword(),
+  );
+  expect(newTokens).not.toBeNull();
+  expect(lifecycleCalls).toContainEqual(
+    expect.objectContaining({ callback: "onRecoveryCodeUsed", codesLeft: 9 }),
+  );
+  expect(await asSarah.query(api.mfa.recoveryCodesLeft)).toEqual(9);
+
+  // 3. Each code can only be used once, and only as a second factor
+  await expect(
+    signInWithCode(codes[0], await signInWithPassword()),
+  ).rejects.toThrow("InvalidCode");
+  await expect(signInWithCode(codes[1])).rejects.toThrow(
+    "Recovery codes can only be used with an `mfaChallenge`",
+  );
+});
+
+test("generating recovery codes requires a recent sign-in", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { sub } = decodeJwt(tokens!.token);
+  const asSarah = t.withIdentity({ subject: sub });
+  const codes = await asSarah.action(api.mfa.newRecoveryCodes);
+
+  // 1. The session has to be recently authenticated
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(asSarah.action(api.mfa.newRecoveryCodes)).rejects.toThrow(
+    "ReauthenticationRequired",
+  );
+
+  // 2. Impersonators can't generate codes
+  await asSarah.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+    reauthenticate: true,
+  });
+  const [userId, sessionId] = sub!.split("|");
+  await t.run(async (ctx) => {
+    await ctx.db.patch(sessionId as any, { impersonatorId: userId as any });
+  });
+  await expect(asSarah.action(api.mfa.newRecoveryCodes)).rejects.toThrow(
+    "ReauthenticationRequired",
+  );
+
+  // The existing codes are kept
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authRecoveryCodes").collect()).toHaveLength(
+      codes.length,
+    );
+  });
+  vi.useRealTimers();
+});
+
+function setupEnv() {
+  process.env.SITE_URL = "http://localhost:5173";
+  process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
+  process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
+  process.env.JWKS = JWKS;
+  process.env.AUTH_RESEND_KEY = AUTH_RESEND_KEY;
+  process.env.AUTH_TOTP_KEY = "totpEncryptionKey";
+  process.env.AUTH_GITHUB_ID = "githubClientId";
+  process.env.AUTH_GITHUB_SECRET = "githubClientSecret";
+  process.env.AUTH_LOG_LEVEL = "ERROR";
+}
@@ -0,0 +1,35 @@
+import {
+  countRecoveryCodes,
+  enrollTOTP,
+  generateRecoveryCodes,
+  getAuthUserId,
+} from "@convex-dev/auth/server";
+import { action, query } from "./_generated/server";
+
+// Returns the secret and `otpauth://` URI to show as a QR code,
+// confirm the enrollment via `signIn("totp", { code })`
+export const startTOTPEnrollment = action({
+  args: {},
+  handler: async (ctx) => {
+    return await enrollTOTP(ctx, { provider: "totp" });
+  },
+});
+
+// Show the codes once, generating new ones invalidates the previous ones
+export const newRecoveryCodes = action({
+  args: {},
+  handler: async (ctx) => {
+    return await generateRecoveryCodes(ctx, { provider: "recovery-code" });
+  },
+});
+
+export const recoveryCodesLeft = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not signed in");
+    }
+    return await countRecoveryCodes(ctx, userId);
+  },
+});
@@ -1,5 +1,5 @@
 import { convexTest } from "convex-test";
-import { expect, test } from "vitest";
+import { expect, test, vi } from "vitest";
 import schema from "./schema";
 import {
   AUTH_RESEND_KEY,
@@ -46,11 +46,92 @@ test("make sure OTP requires email check", async () => {
   );
 });
 
+test("sign in with otp sent along with magic link", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  const { otp, linkCode } = await sendLinkAndOTP(t, "tom@gmail.com");
+
+  await expect(
+    async () =>
+      await t.action(api.auth.signIn, {
+        provider: "resend-link-otp",
+        params: { code: otp },
+      }),
+  ).rejects.toThrowError("Could not verify code");
+  await expect(
+    async () =>
+      await t.action(api.auth.signIn, {
+        provider: "resend-link-otp",
+        params: { code: otp, email: "sarah@gmail.com" },
+      }),
+  ).rejects.toThrowError("Could not verify code");
+
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "resend-link-otp",
+    params: { code: otp, email: "tom@gmail.com" },
+  });
+  expect(tokens).not.toBeNull();
+
+  // The link was invalidated
+  const { tokens: linkTokens } = await t.action(api.auth.signIn, {
+    params: { code: linkCode },
+  });
+  expect(linkTokens).toBeNull();
+});
+
+test("sign in with magic link sent along with otp", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  const { otp, linkCode } = await sendLinkAndOTP(t, "tom@gmail.com");
+
+  const { tokens } = await t.action(api.auth.signIn, {
+    params: { code: linkCode },
+  });
+  expect(tokens).not.toBeNull();
+
+  // The OTP was invalidated
+  await expect(
+    async () =>
+      await t.action(api.auth.signIn, {
+        provider: "resend-link-otp",
+        params: { code: otp, email: "tom@gmail.com" },
+      }),
+  ).rejects.toThrowError("Could not verify code");
+});
+
+async function sendLinkAndOTP(t: ReturnType<typeof convexTest>, email: string) {
+  let text = "";
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input, init) => {
+      if (
+        typeof input === "string" &&
+        input === "https://api.resend.com/emails"
+      ) {
+        text = JSON.parse(init.body).text;
+        return new Response(JSON.stringify(null), { status: 200 });
+      }
+      throw new Error("Unexpected fetch");
+    }),
+  );
+  await t.action(api.auth.signIn, {
+    provider: "resend-link-otp",
+    params: { email },
+  });
+  vi.unstubAllGlobals();
+  const linkCode = text.match(/\?code=([^\s]+)/)![1];
+  const otp = text.match(/the code (\d+)/)![1];
+  return { linkCode, otp };
+}
+
 function setupEnv() {
   process.env.SITE_URL = "http://localhost:5173";
   process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
   process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
   process.env.JWKS = JWKS;
   process.env.AUTH_RESEND_OTP_KEY = AUTH_RESEND_KEY;
+  process.env.AUTH_RESEND_LINK_OTP_KEY = AUTH_RESEND_KEY;
   process.env.AUTH_LOG_LEVEL = "ERROR";
 }
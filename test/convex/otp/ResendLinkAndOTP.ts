@@ -0,0 +1,30 @@
+import { Email } from "@convex-dev/auth/providers/Email";
+import { alphabet, generateRandomString } from "oslo/crypto";
+import { Resend as ResendAPI } from "resend";
+
+// Sends both a magic link and a short code the user can type in
+export const ResendLinkAndOTP = Email({
+  id: "resend-link-otp",
+  apiKey: process.env.AUTH_RESEND_KEY,
+  maxAge: 60 * 20,
+  // The link alone is enough to sign in
+  authorize: undefined,
+  async generateOTP() {
+    return generateRandomString(6, alphabet("0-9"));
+  },
+  async sendVerificationRequest({ identifier: email, provider, url, otp }) {
+    const resend = new ResendAPI(provider.apiKey);
+    const { error } = await resend.emails.send({
+      // TODO: Update with your app name and email address
+      from: process.env.AUTH_EMAIL ?? "My App <onboarding@resend.dev>",
+      to: [email],
+      // TODO: Update with your app name
+      subject: `Sign in to My App`,
+      text: `Sign in by clicking ${url} or by entering the code ${otp}.`,
+    });
+
+    if (error) {
+      throw new Error(JSON.stringify(error));
+    }
+  },
+});
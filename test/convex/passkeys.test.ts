@@ -0,0 +1,208 @@
+import { TestConvexForDataModel, convexTest } from "convex-test";
+import { decodeJwt } from "jose";
+import { expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { DataModel } from "./_generated/dataModel";
+import schema from "./schema";
+import {
+  CONVEX_SITE_URL,
+  JWKS,
+  JWT_PRIVATE_KEY,
+  createPasskey,
+  signWithPasskey,
+} from "./test.helpers";
+
+test("passkey registration and sign-in", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  // 1. Register a passkey without being signed in
+  const registration = await t.action(api.auth.signIn, {
+    provider: "passkey",
+    params: { flow: "register", email: "sarah@gmail.com" },
+  });
+  expect(registration.passkeyOptions).toMatchObject({
+    rp: { name: "Convex Auth Example", id: "localhost" },
+    user: { name: "sarah@gmail.com" },
+    excludeCredentials: [],
+  });
+  const passkey = createPasskey(registration.passkeyOptions);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "passkey",
+    params: {
+      flow: "register",
+      email: "sarah@gmail.com",
+      credential: passkey.credential,
+    },
+    verifier: registration.verifier,
+  });
+  expect(tokens).not.toBeNull();
+  const userId = decodeJwt(tokens!.token).sub!.split("|")[0];
+  const user = await t.run(async (ctx) => ctx.db.get(userId as any));
+  expect(user).toMatchObject({ email: "sarah@gmail.com" });
+
+  // 2. Sign in with the passkey
+  const signIn = async (
+    credential: (options: any) => any,
+    verifier?: string,
+  ) => {
+    const { passkeyOptions, verifier: newVerifier } = await t.action(
+      api.auth.signIn,
+      { provider: "passkey", params: { flow: "signIn" } },
+    );
+    const { tokens } = await t.action(api.auth.signIn, {
+      provider: "passkey",
+      params: { flow: "signIn", credential: credential(passkeyOptions) },
+      verifier: verifier ?? newVerifier,
+    });
+    return tokens;
+  };
+  const newTokens = await signIn((options) =>
+    signWithPasskey(passkey, options, 1),
+  );
+  expect(decodeJwt(newTokens!.token).sub).toContain(userId);
+
+  // 3. The signature counter must increase
+  expect(
+    await signIn((options) => signWithPasskey(passkey, options, 1)),
+  ).toBeNull();
+
+  // 4. Challenges can only be used once
+  expect(
+    await signIn(
+      (options) => signWithPasskey(passkey, options, 2),
+      registration.verifier,
+    ),
+  ).toBeNull();
+
+  // 5. Passkeys are scoped to the site's origin
+  expect(
+    await signIn((options) =>
+      signWithPasskey(passkey, options, 2, "https://evil.example.com"),
+    ),
+  ).toBeNull();
+
+  // 6. Signed-in users can add another passkey
+  const asSarah = t.withIdentity({ subject: decodeJwt(newTokens!.token).sub });
+  const secondRegistration = await asSarah.action(api.auth.signIn, {
+    provider: "passkey",
+    params: { flow: "register" },
+  });
+  expect(secondRegistration.passkeyOptions!.excludeCredentials).toEqual([
+    { type: "public-key", id: passkey.credential.id },
+  ]);
+  const secondPasskey = createPasskey(secondRegistration.passkeyOptions);
+  await asSarah.action(api.auth.signIn, {
+    provider: "passkey",
+    params: { flow: "register", credential: secondPasskey.credential },
+    verifier: secondRegistration.verifier,
+  });
+  const secondTokens = await signIn((options) =>
+    signWithPasskey(secondPasskey, options, 0),
+  );
+  expect(decodeJwt(secondTokens!.token).sub).toContain(userId);
+  await t.run(async (ctx) => {
+    const passkeys = await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) =>
+        q.eq("userId", userId as any).eq("provider", "passkey"),
+      )
+      .collect();
+    expect(passkeys).toHaveLength(2);
+    expect(await ctx.db.query("users").collect()).toHaveLength(1);
+  });
+});
+
+test("passkey registration requires the attested public key", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+
+  const registration = await t.action(api.auth.signIn, {
+    provider: "passkey",
+    params: { flow: "register", email: "sarah@gmail.com" },
+  });
+  const passkey = createPasskey(registration.passkeyOptions);
+  const otherPasskey = createPasskey(registration.passkeyOptions);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "passkey",
+    params: {
+      flow: "register",
+      email: "sarah@gmail.com",
+      credential: {
+        ...passkey.credential,
+        publicKey: otherPasskey.credential.publicKey,
+      },
+    },
+    verifier: registration.verifier,
+  });
+  expect(tokens).toBeNull();
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authAccounts").collect()).toHaveLength(0);
+  });
+});
+
+test("adding a passkey requires a recent sign-in by the same session", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { sub } = decodeJwt(tokens!.token);
+  const asSarah = t.withIdentity({ subject: sub });
+  const register = async (
+    startAs: TestConvexForDataModel<DataModel>,
+    finishAs: TestConvexForDataModel<DataModel> = startAs,
+  ) => {
+    const { passkeyOptions, verifier } = await startAs.action(api.auth.signIn, {
+      provider: "passkey",
+      params: { flow: "register" },
+    });
+    const { credential } = createPasskey(passkeyOptions);
+    const { tokens } = await finishAs.action(api.auth.signIn, {
+      provider: "passkey",
+      params: { flow: "register", credential },
+      verifier,
+    });
+    return tokens;
+  };
+
+  // 1. The options are bound to the session they were issued to
+  expect(await register(asSarah, t)).toBeNull();
+  expect(await register(asSarah)).not.toBeNull();
+
+  // 2. The session has to be recently authenticated
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(register(asSarah)).rejects.toThrow("ReauthenticationRequired");
+
+  // 3. Impersonators can't add passkeys
+  await asSarah.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+    reauthenticate: true,
+  });
+  const [userId, sessionId] = sub!.split("|");
+  await t.run(async (ctx) => {
+    await ctx.db.patch(sessionId as any, { impersonatorId: userId as any });
+  });
+  await expect(register(asSarah)).rejects.toThrow("ReauthenticationRequired");
+
+  await t.run(async (ctx) => {
+    expect(
+      await ctx.db
+        .query("authAccounts")
+        .filter((q) => q.eq(q.field("provider"), "passkey"))
+        .collect(),
+    ).toHaveLength(1);
+  });
+  vi.useRealTimers();
+});
+
+function setupEnv() {
+  process.env.SITE_URL = "http://localhost:5173";
+  process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
+  process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
+  process.env.JWKS = JWKS;
+  process.env.AUTH_LOG_LEVEL = "ERROR";
+}
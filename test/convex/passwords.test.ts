@@ -1,5 +1,6 @@
 import { convexTest } from "convex-test";
 import { decodeJwt } from "jose";
+import { ConvexError } from "convex/values";
 import { expect, test } from "vitest";
 import { api } from "./_generated/api";
 import schema from "./schema";
@@ -112,6 +113,148 @@ test("sign up with password and verify email", async () => {
   expect(validTokens2).not.toBeNull();
 });
 
+test("change password", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password-invalidate",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  await t.action(api.auth.signIn, {
+    provider: "password-invalidate",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  const claims = decodeJwt(tokens!.token);
+  const asSarah = t.withIdentity({ subject: claims.sub });
+
+  // 1. Requires being signed in and the current password
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password-invalidate",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        newPassword: "88884444",
+        flow: "change-password",
+      },
+    }),
+  ).rejects.toThrow("Cannot change password without being signed in");
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "password-invalidate",
+      params: {
+        email: "sarah@gmail.com",
+        password: "wrong",
+        newPassword: "88884444",
+        flow: "change-password",
+      },
+    }),
+  ).rejects.toThrow("InvalidSecret");
+
+  // 2. Change the password, keeping the current session only
+  const { tokens: newTokens } = await asSarah.action(api.auth.signIn, {
+    provider: "password-invalidate",
+    params: {
+      email: "sarah@gmail.com",
+      password: "44448888",
+      newPassword: "88884444",
+      flow: "change-password",
+    },
+  });
+  expect(decodeJwt(newTokens!.token).sub).toBe(claims.sub);
+  await t.run(async (ctx) => {
+    const sessions = await ctx.db.query("authSessions").collect();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]._id).toBe(claims.sub!.split("|")[1]);
+  });
+
+  // 3. Only the new password works
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password-invalidate",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+      },
+    }),
+  ).rejects.toThrow("InvalidSecret");
+  const { tokens: signInTokens } = await t.action(api.auth.signIn, {
+    provider: "password-invalidate",
+    params: { email: "sarah@gmail.com", password: "88884444", flow: "signIn" },
+  });
+  expect(signInTokens).not.toBeNull();
+});
+
+test("password policy", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const signUp = (password: string) =>
+    t.action(api.auth.signIn, {
+      provider: "password-policy",
+      params: { email: "sarah@gmail.com", password, flow: "signUp" },
+    });
+  const failedRules = async (password: string) => {
+    const error = await signUp(password).catch((error) => error);
+    expect(error).toBeInstanceOf(ConvexError);
+    // The error data is serialized on its way from the action
+    const data = JSON.parse(error.data);
+    expect(data.code).toBe("InvalidPassword");
+    return data.failedRules;
+  };
+
+  expect(await failedRules("short")).toEqual([
+    "minLength",
+    "uppercase",
+    "digit",
+    "symbol",
+  ]);
+  expect(await failedRules("Sarah-1234-xyz")).toEqual(["email"]);
+  expect(await failedRules("Password123!")).toEqual(["breached"]);
+
+  const { tokens } = await signUp("Correct-Horse-42");
+  expect(tokens).not.toBeNull();
+});
+
+test("rehash password on sign-in", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const signIn = (password: string) =>
+    t.action(api.auth.signIn, {
+      provider: "password-legacy",
+      params: { email: "sarah@gmail.com", password, flow: "signIn" },
+    });
+  await t.action(api.auth.signIn, {
+    provider: "password-legacy",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const setSecret = (secret: string) =>
+    t.run(async (ctx) => {
+      const account = (await ctx.db.query("authAccounts").first())!;
+      await ctx.db.patch(account._id, { secret });
+    });
+  const getSecret = () =>
+    t.run(async (ctx) => (await ctx.db.query("authAccounts").first())!.secret);
+  expect(await getSecret()).toBe("v2:44448888");
+
+  // 1. Hashes from a previous algorithm are verified and migrated
+  await setSecret("v1:44448888");
+  await expect(signIn("wrong")).rejects.toThrow("InvalidSecret");
+  expect(await getSecret()).toBe("v1:44448888");
+  const { tokens } = await signIn("44448888");
+  expect(tokens).not.toBeNull();
+  expect(await getSecret()).toBe("v2:44448888");
+
+  // 2. Hashes flagged by `needsRehash` are migrated
+  await setSecret("v2-weak:44448888");
+  await signIn("44448888");
+  expect(await getSecret()).toBe("v2:44448888");
+
+  // 3. Current hashes are kept
+  await signIn("44448888");
+  expect(await getSecret()).toBe("v2:44448888");
+});
+
 function setupEnv() {
   process.env.SITE_URL = "http://localhost:5173";
   process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
@@ -1,10 +1,13 @@
 import { convexTest } from "convex-test";
-import { expect, test } from "vitest";
+import { decodeJwt } from "jose";
+import { expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
 import schema from "./schema";
 import {
   CONVEX_SITE_URL,
   JWKS,
   JWT_PRIVATE_KEY,
+  mockPhoneOTP,
   signInViaPhone,
 } from "./test.helpers";
 
@@ -38,6 +41,126 @@ test("repeated signin via phone", async () => {
   });
 });
 
+test("changing phone", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const tokens = await signInViaPhone(t, "fake-phone", {
+    phone: "+1234567890",
+  });
+  await signInViaPhone(t, "fake-phone", { phone: "+1555555555" });
+  const asUser = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+
+  // 1. Can't change to another user's phone
+  await expect(
+    asUser.action(api.auth.signIn, {
+      provider: "fake-phone",
+      params: { phone: "+1555555555" },
+      changePhone: true,
+    }),
+  ).rejects.toThrow("PhoneInUse");
+
+  // 2. Verify the new phone
+  const newTokens = await signInViaPhone(
+    asUser,
+    "fake-phone",
+    { phone: "+1987654321" },
+    { changePhone: true },
+  );
+  expect(newTokens).not.toBeNull();
+
+  // 3. The phone and the account were updated, no user was created,
+  // and the original session is still signed in
+  const sessionId = decodeJwt(tokens!.token).sub!.split("|")[1];
+  expect(decodeJwt(newTokens!.token).sub!.split("|")[1]).toBe(sessionId);
+  await t.run(async (ctx) => {
+    const sessions = await ctx.db.query("authSessions").collect();
+    expect(sessions).toHaveLength(2);
+    expect(sessions).toContainEqual(
+      expect.objectContaining({ _id: sessionId }),
+    );
+    const users = await ctx.db.query("users").collect();
+    expect(users).toHaveLength(2);
+    expect(users).toContainEqual(
+      expect.objectContaining({ phone: "+1987654321" }),
+    );
+    const accounts = await ctx.db.query("authAccounts").collect();
+    expect(accounts).toContainEqual(
+      expect.objectContaining({
+        providerAccountId: "+1987654321",
+        phoneVerified: "+1987654321",
+      }),
+    );
+  });
+
+  // 4. Sign in with the new phone
+  const signInTokens = await signInViaPhone(t, "fake-phone", {
+    phone: "+1987654321",
+  });
+  expect(decodeJwt(signInTokens!.token).sub!.split("|")[0]).toBe(
+    decodeJwt(tokens!.token).sub!.split("|")[0],
+  );
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("users").collect()).toHaveLength(2);
+  });
+});
+
+test("changing phone requires recent sign-in and its own code", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const tokens = await signInViaPhone(t, "fake-phone", {
+    phone: "+1234567890",
+  });
+  const asUser = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const changePhone = (params: Record<string, unknown>) =>
+    asUser.action(api.auth.signIn, {
+      provider: "fake-phone",
+      params,
+      changePhone: true,
+    });
+
+  // 1. The change requires a recent sign-in
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(changePhone({ phone: "+1987654321" })).rejects.toThrow(
+    "ReauthenticationRequired",
+  );
+  await signInViaPhone(
+    asUser,
+    "fake-phone",
+    { phone: "+1234567890" },
+    { reauthenticate: true },
+  );
+
+  // 2. Sending a sign-in code doesn't cancel the pending change
+  const { code: changeCode } = await mockPhoneOTP(() =>
+    changePhone({ phone: "+1987654321" }),
+  );
+  await mockPhoneOTP(() =>
+    t.action(api.auth.signIn, {
+      provider: "fake-phone",
+      params: { phone: "+1234567890" },
+    }),
+  );
+  const { tokens: changeTokens } = await changePhone({
+    phone: "+1987654321",
+    code: changeCode,
+  });
+  expect(changeTokens).not.toBeNull();
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("users").collect()).toMatchObject([
+      { phone: "+1987654321" },
+    ]);
+  });
+
+  // 3. Completing the change didn't consume the sign-in code
+  await t.run(async (ctx) => {
+    expect(await ctx.db.query("authVerificationCodes").collect()).toMatchObject(
+      [{ phoneVerified: "+1234567890" }],
+    );
+  });
+  vi.useRealTimers();
+});
+
 function setupEnv() {
   process.env.SITE_URL = "http://localhost:5173";
   process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
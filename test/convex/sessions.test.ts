@@ -1,8 +1,25 @@
+import {
+  disableUser,
+  enableUser,
+  getAuthImpersonatorId,
+  listSessions,
+  requireRecentAuth,
+  revokeSession,
+} from "@convex-dev/auth/server";
 import { convexTest } from "convex-test";
+import { decodeJwt } from "jose";
 import { expect, test, vi } from "vitest";
 import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
 import schema from "./schema";
-import { CONVEX_SITE_URL, JWKS, JWT_PRIVATE_KEY } from "./test.helpers";
+import { lifecycleCalls } from "./test.config";
+import {
+  AUTH_RESEND_KEY,
+  CONVEX_SITE_URL,
+  JWKS,
+  JWT_PRIVATE_KEY,
+  signInViaMagicLink,
+} from "./test.helpers";
 
 test("session refresh", async () => {
   vi.useFakeTimers();
@@ -108,10 +125,388 @@ test("session expiration", async () => {
   vi.useRealTimers();
 });
 
+test("session metadata and listing", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens: initialTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+    // Not reported by a trusted proxy
+    metadata: {
+      userAgent: "Firefox",
+      deviceLabel: "Laptop",
+      ipAddress: "6.6.6.6",
+    },
+  });
+  await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+    metadata: {
+      userAgent: "Safari",
+      ipAddress: "1.2.3.4",
+      proxySecret: process.env.AUTH_PROXY_SECRET,
+    },
+  });
+
+  vi.advanceTimersByTime(1000);
+
+  await t.action(api.auth.signIn, {
+    refreshToken: initialTokens!.refreshToken,
+  });
+
+  const { sub } = decodeJwt(initialTokens!.token);
+  const [userId, sessionId] = sub!.split("|") as [
+    Id<"users">,
+    Id<"authSessions">,
+  ];
+  const sessions = await t
+    .withIdentity({ subject: sub })
+    .run((ctx) => listSessions(ctx, userId));
+  expect(sessions).toHaveLength(2);
+  expect(sessions).toContainEqual(
+    expect.objectContaining({
+      sessionId,
+      userAgent: "Firefox",
+      deviceLabel: "Laptop",
+      ipAddress: null,
+      lastRefreshTime: Date.now(),
+      isCurrent: true,
+    }),
+  );
+  expect(sessions).toContainEqual(
+    expect.objectContaining({
+      userAgent: "Safari",
+      ipAddress: "1.2.3.4",
+      lastRefreshTime: null,
+      isCurrent: false,
+    }),
+  );
+
+  const revoked = await t.run((ctx) => revokeSession(ctx, sessionId));
+  expect(revoked).toBe(true);
+
+  await t.run(async (ctx) => {
+    expect(await listSessions(ctx, userId)).toHaveLength(1);
+    const refreshTokens = await ctx.db
+      .query("authRefreshTokens")
+      .withIndex("sessionId", (q) => q.eq("sessionId", sessionId))
+      .collect();
+    expect(refreshTokens).toHaveLength(0);
+  });
+
+  vi.useRealTimers();
+});
+
+test("session duration hint", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens: shortTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: {
+      email: "sarah@gmail.com",
+      password: "44448888",
+      flow: "signUp",
+      sessionDuration: "sharedComputer",
+    },
+  });
+  const { tokens: longTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: {
+      email: "sarah@gmail.com",
+      password: "44448888",
+      flow: "signIn",
+      sessionDuration: "rememberMe",
+    },
+  });
+
+  // See `durationsForHint` in test.config.ts
+  await t.run(async (ctx) => {
+    const [shortSession, longSession] = await ctx.db
+      .query("authSessions")
+      .collect();
+    expect(shortSession.expirationTime).toBe(Date.now() + 1000 * 60 * 60);
+    expect(shortSession.inactiveDurationMs).toBe(1000 * 60);
+    expect(longSession.expirationTime).toBe(
+      Date.now() + 1000 * 60 * 60 * 24 * 90,
+    );
+    expect(longSession.inactiveDurationMs).toBeUndefined();
+  });
+
+  vi.advanceTimersByTime(1000 * 60 * 2);
+
+  const { tokens: shortRefreshed } = await t.action(api.auth.signIn, {
+    refreshToken: shortTokens!.refreshToken,
+  });
+  expect(shortRefreshed).toBeNull();
+  const { tokens: longRefreshed } = await t.action(api.auth.signIn, {
+    refreshToken: longTokens!.refreshToken,
+  });
+  expect(longRefreshed).not.toBeNull();
+
+  vi.useRealTimers();
+});
+
+test("reauthentication", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens: initialTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { sub, auth_time: initialAuthTime } = decodeJwt(initialTokens!.token);
+  expect(initialAuthTime).toBe(Math.floor(Date.now() / 1000));
+  const asSarah = t.withIdentity({ subject: sub });
+  const FIVE_MINUTES_MS = 1000 * 60 * 5;
+  await asSarah.run((ctx) => requireRecentAuth(ctx, FIVE_MINUTES_MS));
+
+  vi.advanceTimersByTime(2 * FIVE_MINUTES_MS);
+
+  // Refreshing doesn't count as authenticating
+  const { tokens: refreshedTokens } = await t.action(api.auth.signIn, {
+    refreshToken: initialTokens!.refreshToken,
+  });
+  expect(decodeJwt(refreshedTokens!.token).auth_time).toBe(initialAuthTime);
+  await expect(
+    asSarah.run((ctx) => requireRecentAuth(ctx, FIVE_MINUTES_MS)),
+  ).rejects.toThrow("ReauthenticationRequired");
+
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "password",
+      params: { email: "sarah@gmail.com", password: "wrong", flow: "signIn" },
+      reauthenticate: true,
+    }),
+  ).rejects.toThrow("InvalidSecret");
+
+  const { tokens: reauthenticatedTokens } = await asSarah.action(
+    api.auth.signIn,
+    {
+      provider: "password",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+      },
+      reauthenticate: true,
+    },
+  );
+  const claims = decodeJwt(reauthenticatedTokens!.token);
+  expect(claims.sub).toBe(sub);
+  expect(claims.auth_time).toBe(Math.floor(Date.now() / 1000));
+  await asSarah.run(async (ctx) => {
+    await requireRecentAuth(ctx, FIVE_MINUTES_MS);
+    expect(await ctx.db.query("authSessions").collect()).toHaveLength(1);
+  });
+
+  // Only the signed-in user can reauthenticate
+  await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "tom@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "password",
+      params: { email: "tom@gmail.com", password: "44448888", flow: "signIn" },
+      reauthenticate: true,
+    }),
+  ).rejects.toThrow("Cannot reauthenticate");
+
+  vi.useRealTimers();
+});
+
+test("reauthentication via magic link", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const tokens = await signInViaMagicLink(t, "resend", "sarah@gmail.com");
+  const { sub } = decodeJwt(tokens!.token);
+  const asSarah = t.withIdentity({ subject: sub });
+  vi.advanceTimersByTime(1000 * 60 * 10);
+
+  let code;
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input, init) => {
+      if (input === "https://api.resend.com/emails") {
+        code = init.body.match(/\?code=([^\s\\]+)/)?.[1];
+        return new Response(null, { status: 200 });
+      }
+      throw new Error("Unexpected fetch");
+    }),
+  );
+  await asSarah.action(api.auth.signIn, {
+    provider: "resend",
+    params: { email: "sarah@gmail.com" },
+    reauthenticate: true,
+  });
+  vi.unstubAllGlobals();
+
+  // The link is exchanged without the session's token,
+  // like in the Next.js middleware
+  const { tokens: reauthenticatedTokens } = await t.action(api.auth.signIn, {
+    params: { code },
+  });
+  expect(decodeJwt(reauthenticatedTokens!.token).sub).toBe(sub);
+  await asSarah.run(async (ctx) => {
+    await requireRecentAuth(ctx, 1000 * 60 * 5);
+    expect(await ctx.db.query("authSessions").collect()).toHaveLength(1);
+  });
+
+  vi.useRealTimers();
+});
+
+test("impersonation", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens: adminTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { tokens: customerTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "tom@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const adminSub = decodeJwt(adminTokens!.token).sub!;
+  const [adminId] = adminSub.split("|") as [Id<"users">];
+  const [customerId] = decodeJwt(customerTokens!.token).sub!.split("|") as [
+    Id<"users">,
+  ];
+
+  // See `testProviders` in test.config.ts
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "impersonate",
+      params: { userId: customerId },
+    }),
+  ).rejects.toThrow("Not allowed to impersonate users");
+
+  const asAdmin = t.withIdentity({ subject: adminSub });
+  // Disabled users can't be impersonated
+  await t.run(async (ctx) => {
+    await disableUser(ctx, customerId);
+  });
+  await expect(
+    asAdmin.action(api.auth.signIn, {
+      provider: "impersonate",
+      params: { userId: customerId },
+    }),
+  ).rejects.toThrow("UserDisabled");
+  await t.run(async (ctx) => {
+    await enableUser(ctx, customerId);
+  });
+
+  const { tokens } = await asAdmin.action(api.auth.signIn, {
+    provider: "impersonate",
+    params: { userId: customerId },
+  });
+  const claims = decodeJwt(tokens!.token);
+  expect(claims.sub!.split("|")[0]).toBe(customerId);
+  expect(claims.act).toEqual({ sub: adminId });
+
+  const asImpersonator = t.withIdentity({
+    subject: claims.sub,
+    act: { sub: adminId },
+  });
+  await asImpersonator.run(async (ctx) => {
+    expect(await getAuthImpersonatorId(ctx)).toBe(adminId);
+    const sessions = await listSessions(ctx, customerId);
+    expect(sessions).toContainEqual(
+      expect.objectContaining({ impersonatorId: adminId, isCurrent: true }),
+    );
+    // The impersonator can't pass as the user for sensitive operations
+    await expect(requireRecentAuth(ctx, 1000 * 60)).rejects.toThrow(
+      "ReauthenticationRequired",
+    );
+  });
+  await expect(
+    asImpersonator.action(api.auth.signIn, {
+      provider: "impersonate",
+      params: { userId: adminId },
+    }),
+  ).rejects.toThrow("Cannot impersonate a user while impersonating");
+
+  // Impersonation sessions are short-lived
+  vi.advanceTimersByTime(1000 * 60 * 30);
+  const { tokens: refreshedTokens } = await t.action(api.auth.signIn, {
+    refreshToken: tokens!.refreshToken,
+  });
+  expect(decodeJwt(refreshedTokens!.token).act).toEqual({ sub: adminId });
+  vi.advanceTimersByTime(1000 * 60 * 31);
+  const { tokens: expiredTokens } = await t.action(api.auth.signIn, {
+    refreshToken: refreshedTokens!.refreshToken,
+  });
+  expect(expiredTokens).toBeNull();
+
+  // Longer durations are capped
+  const { tokens: newAdminTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signIn" },
+  });
+  const { tokens: longTokens } = await t
+    .withIdentity({ subject: decodeJwt(newAdminTokens!.token).sub })
+    .action(api.auth.signIn, {
+      provider: "impersonate",
+      params: { userId: customerId, durationMs: 1000 * 60 * 60 * 24 },
+    });
+  const [, sessionId] = decodeJwt(longTokens!.token).sub!.split("|") as [
+    Id<"users">,
+    Id<"authSessions">,
+  ];
+  const session = await t.run(async (ctx) => ctx.db.get(sessionId));
+  expect(session!.expirationTime).toBe(Date.now() + 1000 * 60 * 60 * 4);
+
+  vi.useRealTimers();
+});
+
+test("lifecycle callbacks", async () => {
+  setupEnv();
+  lifecycleCalls.length = 0;
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { sub } = decodeJwt(tokens!.token);
+  const [userId] = sub!.split("|") as [Id<"users">];
+  const user = expect.objectContaining({ _id: userId });
+  await expect(
+    t.action(api.auth.signIn, {
+      provider: "password",
+      params: { email: "sarah@gmail.com", password: "wrong", flow: "signIn" },
+    }),
+  ).rejects.toThrow("InvalidSecret");
+  await t.action(api.auth.signIn, { refreshToken: tokens!.refreshToken });
+  await t.withIdentity({ subject: sub }).action(api.auth.signOut);
+
+  // See `callbacks` in test.config.ts
+  expect(lifecycleCalls).toEqual([
+    {
+      callback: "onSignIn",
+      user,
+      provider: "password",
+      method: "credentials",
+    },
+    {
+      callback: "onSignInFailed",
+      user,
+      provider: "password",
+      method: "credentials",
+    },
+    { callback: "onSessionRefreshed", user },
+    { callback: "onSignOut", user },
+  ]);
+});
+
 function setupEnv() {
   process.env.SITE_URL = "http://localhost:5173";
   process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
   process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
   process.env.JWKS = JWKS;
+  process.env.AUTH_PROXY_SECRET = "proxySecret";
+  process.env.AUTH_RESEND_KEY = AUTH_RESEND_KEY;
   process.env.AUTH_LOG_LEVEL = "ERROR";
 }
@@ -0,0 +1,120 @@
+import { ConvexCredentials } from "@convex-dev/auth/providers/ConvexCredentials";
+import { Password } from "@convex-dev/auth/providers/Password";
+import { TOTP } from "@convex-dev/auth/providers/TOTP";
+import {
+  ConvexAuthConfig,
+  getAuthUserId,
+  impersonateUser,
+  retrieveAccount,
+  signInViaProvider,
+} from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+
+// Additional `convexAuth` config used only by the tests,
+// removed from the published example.
+export const testConfig: Partial<ConvexAuthConfig> = {
+  session: {
+    durationsForHint: (hint) =>
+      hint === "rememberMe"
+        ? { totalDurationMs: 1000 * 60 * 60 * 24 * 90 } // 90 days
+        : // 1 hour in total, 1 minute of inactivity
+          { totalDurationMs: 1000 * 60 * 60, inactiveDurationMs: 1000 * 60 },
+  },
+  auditLog: { enabled: true },
+  mfa: { factors: ["totp", "passkey", "fake-phone-2", "recovery-code"] },
+  callbacks: {
+    async jwtClaims(ctx, { userId }) {
+      const user = await ctx.db.get(userId);
+      return {
+        email: user?.email,
+        // Reserved claims are ignored
+        iss: "https://evil.example.com",
+      };
+    },
+    async onSignIn(_ctx, { user, provider, method }) {
+      lifecycleCalls.push({ callback: "onSignIn", user, provider, method });
+    },
+    async onSignOut(_ctx, { user }) {
+      lifecycleCalls.push({ callback: "onSignOut", user });
+    },
+    async onSessionRefreshed(_ctx, { user }) {
+      lifecycleCalls.push({ callback: "onSessionRefreshed", user });
+    },
+    async onSignInFailed(_ctx, { user, provider, method }) {
+      lifecycleCalls.push({
+        callback: "onSignInFailed",
+        user,
+        provider,
+        method,
+      });
+    },
+    async onEmailChanged(_ctx, { user, previousEmail }) {
+      lifecycleCalls.push({ callback: "onEmailChanged", user, previousEmail });
+    },
+    async onRecoveryCodeUsed(_ctx, { user, codesLeft }) {
+      lifecycleCalls.push({ callback: "onRecoveryCodeUsed", user, codesLeft });
+    },
+  },
+};
+
+// Calls of the lifecycle callbacks above, checked by the tests.
+export const lifecycleCalls: Record<string, unknown>[] = [];
+
+// Additional providers used only by the tests.
+export const testProviders = [
+  ConvexCredentials({
+    id: "impersonate",
+    authorize: async (params, ctx) => {
+      // A real app would check that the signed-in user is an admin
+      if ((await getAuthUserId(ctx)) === null) {
+        throw new Error("Not allowed to impersonate users");
+      }
+      const userId = params.userId as Id<"users">;
+      const durationMs = params.durationMs as number | undefined;
+      return await impersonateUser(ctx, { userId, durationMs });
+    },
+  }),
+  ConvexCredentials({
+    id: "password-totp",
+    // Requires a code from the user's authenticator app
+    // after checking the password
+    authorize: async (params, ctx) => {
+      const { account } = await retrieveAccount(ctx, {
+        provider: "password",
+        account: {
+          id: params.email as string,
+          secret: params.password as string,
+        },
+      });
+      return await signInViaProvider(
+        ctx,
+        TOTP({ issuer: "Convex Auth Example" }),
+        { accountId: account._id, params: { code: params.code } },
+      );
+    },
+  }),
+  Password({ id: "password-invalidate", invalidateSessionsOnChange: true }),
+  Password({
+    id: "password-policy",
+    passwordPolicy: {
+      minLength: 10,
+      maxLength: 64,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      disallowEmail: true,
+      isBreached: async (password) => password === "Password123!",
+    },
+  }),
+  Password({
+    id: "password-legacy",
+    // Toy hashes, "v1:" and "v2-weak:" hashes get migrated to "v2:"
+    crypto: {
+      hashSecret: async (secret) => `v2:${secret}`,
+      verifySecret: async (secret, hash) =>
+        hash === `v2:${secret}` || hash === `v2-weak:${secret}`,
+      verifiers: [async (secret, hash) => hash === `v1:${secret}`],
+      needsRehash: (hash) => hash.startsWith("v2-weak:"),
+    },
+  }),
+];
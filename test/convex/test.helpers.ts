@@ -1,3 +1,11 @@
+import {
+  KeyObject,
+  createHash,
+  createHmac,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+} from "crypto";
 import { load as cheerio } from "cheerio";
 import { TestConvexForDataModel } from "convex-test";
 import { expect, vi } from "vitest";
@@ -18,10 +26,12 @@ export async function signInViaGitHub(
   params: {
     redirectTo?: string;
   } = {},
+  options: { link?: boolean } = {},
 ) {
   const { redirect, verifier } = await t.action(api.auth.signIn, {
     provider,
     params,
+    ...options,
   });
   expect(redirect).toEqual(
     expect.stringContaining(
@@ -98,12 +108,16 @@ export async function signInViaGitHub(
 
   expect(finalRedirectedTo).not.toBeNull();
   const code = new URL(finalRedirectedTo!).searchParams.get("code");
+  // The callback failed
+  if (code === null) {
+    return { tokens: null, url: finalRedirectedTo! };
+  }
 
-  const { tokens } = await t.action(api.auth.signIn, {
+  const { tokens, mfaRequired } = await t.action(api.auth.signIn, {
     params: { code },
     verifier,
   });
-  return { tokens, url: finalRedirectedTo! };
+  return { tokens, mfaRequired, url: finalRedirectedTo! };
 }
 
 export async function signInViaMagicLink(
@@ -178,12 +192,8 @@ export async function mockResendOTP<T>(send: () => Promise<T>) {
   return { result, code: code! };
 }
 
-export async function signInViaPhone(
-  t: TestConvexForDataModel<DataModel>,
-  provider: string,
-  params: Record<string, unknown>,
-) {
-  let code;
+export async function mockPhoneOTP<T>(send: () => Promise<T>) {
+  let code: string;
   vi.stubGlobal(
     "fetch",
     vi.fn(async (input, init) => {
@@ -195,14 +205,28 @@ export async function signInViaPhone(
     }),
   );
 
-  await t.action(api.auth.signIn, { provider, params });
+  const result = await send();
   vi.unstubAllGlobals();
+  return { result, code: code! };
+}
+
+export async function signInViaPhone(
+  t: TestConvexForDataModel<DataModel>,
+  provider: string,
+  params: Record<string, unknown>,
+  options: { changePhone?: boolean; reauthenticate?: boolean } = {},
+) {
+  const { code } = await mockPhoneOTP(
+    async () =>
+      await t.action(api.auth.signIn, { provider, params, ...options }),
+  );
 
   // Note: The client doesn't use auth for this call,
   // so ideally this should be `t.withoutIdentity().action(...)`
   const result = await t.action(api.auth.signIn, {
     provider,
     params: { code, ...params },
+    ...options,
   });
   return result.tokens ?? null;
 }
@@ -218,3 +242,110 @@ export async function signInViaPhone(
 // function envProviderId(provider: string) {
 //   return provider.toUpperCase().replace(/-/g, "_");
 // }
+
+// RFC 6238 code for the given base32 secret, 30 second period
+export function totpCode(secret: string, time = Date.now()) {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  let bits = "";
+  for (const char of secret) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, "0");
+  }
+  const key = Buffer.from(
+    bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)),
+  );
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / 30)));
+  const hmac = createHmac("sha1", key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000;
+  return code.toString().padStart(6, "0");
+}
+
+// A software authenticator creating an ES256 passkey
+// for the options returned by the `signIn` action
+export function createPasskey(
+  options: any,
+  origin = "http://localhost:5173",
+): { privateKey: KeyObject; credential: any } {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const id = randomBytes(16);
+  const { x, y } = publicKey.export({ format: "jwk" });
+  // COSE_Key {kty: EC2, alg: ES256, crv: P-256, x, y}
+  const coseKey = Buffer.concat([
+    Buffer.from([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20]),
+    Buffer.from(x!, "base64url"),
+    Buffer.from([0x22, 0x58, 0x20]),
+    Buffer.from(y!, "base64url"),
+  ]);
+  const authenticatorData = Buffer.concat([
+    sha256(options.rp.id),
+    // User present, user verified, attested credential data included
+    Buffer.from([0x45]),
+    // Signature counter
+    Buffer.alloc(4),
+    // AAGUID
+    Buffer.alloc(16),
+    Buffer.from([0, id.length]),
+    id,
+    coseKey,
+  ]);
+  return {
+    privateKey,
+    credential: {
+      id: id.toString("base64url"),
+      clientDataJSON: clientDataJSON(
+        "webauthn.create",
+        options.challenge,
+        origin,
+      ),
+      authenticatorData: authenticatorData.toString("base64url"),
+      publicKey: publicKey
+        .export({ type: "spki", format: "der" })
+        .toString("base64url"),
+      publicKeyAlgorithm: -7,
+    },
+  };
+}
+
+export function signWithPasskey(
+  passkey: ReturnType<typeof createPasskey>,
+  options: any,
+  signCount: number,
+  origin = "http://localhost:5173",
+) {
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(signCount);
+  // User present, user verified
+  const authenticatorData = Buffer.concat([
+    sha256(options.rpId),
+    Buffer.from([0x05]),
+    counter,
+  ]);
+  const clientData = clientDataJSON("webauthn.get", options.challenge, origin);
+  const signature = sign(
+    "sha256",
+    Buffer.concat([
+      authenticatorData,
+      sha256(Buffer.from(clientData, "base64url")),
+    ]),
+    { key: passkey.privateKey, dsaEncoding: "der" },
+  );
+  return {
+    id: passkey.credential.id,
+    clientDataJSON: clientData,
+    authenticatorData: authenticatorData.toString("base64url"),
+    signature: signature.toString("base64url"),
+  };
+}
+
+function clientDataJSON(type: string, challenge: string, origin: string) {
+  return Buffer.from(JSON.stringify({ type, challenge, origin })).toString(
+    "base64url",
+  );
+}
+
+function sha256(data: string | Buffer) {
+  return createHash("sha256").update(data).digest();
+}
@@ -0,0 +1,147 @@
+import { TestConvex, convexTest } from "convex-test";
+import {
+  JWK,
+  createLocalJWKSet,
+  decodeJwt,
+  decodeProtectedHeader,
+  exportJWK,
+  exportPKCS8,
+  generateKeyPair,
+  jwtVerify,
+} from "jose";
+import { expect, test } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import { CONVEX_SITE_URL, JWKS, JWT_PRIVATE_KEY } from "./test.helpers";
+
+test("custom claims", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+
+  const claims = decodeJwt(tokens!.token);
+  // See `jwtClaims` in test.config.ts
+  expect(claims).toMatchObject({
+    email: "sarah@gmail.com",
+    iss: CONVEX_SITE_URL,
+    aud: "convex",
+  });
+
+  const { tokens: refreshedTokens } = await t.action(api.auth.signIn, {
+    refreshToken: tokens!.refreshToken,
+  });
+  expect(decodeJwt(refreshedTokens!.token)).toMatchObject({
+    email: "sarah@gmail.com",
+    sub: claims.sub,
+  });
+});
+
+test("key rotation", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens: oldTokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const oldKid = decodeProtectedHeader(oldTokens!.token).kid;
+  expect(oldKid).toBeDefined();
+  await expectVerifies(t, oldTokens!.token);
+
+  // Rotate: sign with a new key, keep the old one as retired
+  const keys = await generateKeyPair("RS256");
+  const oldKey: JWK = JSON.parse(JWKS).keys[0];
+  process.env.JWT_PRIVATE_KEY = (await exportPKCS8(keys.privateKey)).replace(
+    /\n/g,
+    " ",
+  );
+  process.env.JWKS = JSON.stringify({
+    keys: [
+      { use: "sig", ...(await exportJWK(keys.publicKey)) },
+      { ...oldKey, retiredAt: Date.now() },
+    ],
+  });
+
+  const { tokens: newTokens } = await t.action(api.auth.signIn, {
+    refreshToken: oldTokens!.refreshToken,
+  });
+  const newKid = decodeProtectedHeader(newTokens!.token).kid;
+  expect(newKid).toBeDefined();
+  expect(newKid).not.toEqual(oldKid);
+  // Within the grace period both keys are published
+  expect((await fetchJwks(t)).keys.map(({ kid }) => kid)).toEqual([
+    newKid,
+    oldKid,
+  ]);
+  await expectVerifies(t, oldTokens!.token);
+  await expectVerifies(t, newTokens!.token);
+
+  // After every JWT signed with the old key has expired, it's dropped
+  process.env.JWKS = JSON.stringify({
+    keys: [
+      { use: "sig", ...(await exportJWK(keys.publicKey)) },
+      { ...oldKey, retiredAt: Date.now() - 1000 * 60 * 60 * 2 },
+    ],
+  });
+  const jwks = await fetchJwks(t);
+  expect(jwks.keys.map(({ kid }) => kid)).toEqual([newKid]);
+  expect(jwks.keys[0]).not.toHaveProperty("retiredAt");
+});
+
+test("custom key ID", async () => {
+  setupEnv();
+  const t = convexTest(schema);
+  const key: JWK = JSON.parse(JWKS).keys[0];
+  process.env.JWKS = JSON.stringify({ keys: [{ ...key, kid: "my-key" }] });
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  expect(decodeProtectedHeader(tokens!.token).kid).toBe("my-key");
+  await expectVerifies(t, tokens!.token);
+});
+
+test.each(["ES256", "EdDSA"])("%s signing keys", async (algorithm) => {
+  setupEnv();
+  const t = convexTest(schema);
+  // The algorithm is detected from the key, without `jwt.algorithm` config
+  const keys = await generateKeyPair(algorithm);
+  process.env.JWT_PRIVATE_KEY = (await exportPKCS8(keys.privateKey)).replace(
+    /\n/g,
+    " ",
+  );
+  process.env.JWKS = JSON.stringify({
+    keys: [{ use: "sig", ...(await exportJWK(keys.publicKey)) }],
+  });
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  expect(decodeProtectedHeader(tokens!.token).alg).toBe(algorithm);
+  await expectVerifies(t, tokens!.token);
+});
+
+async function fetchJwks(t: TestConvex<typeof schema>) {
+  const response = await t.fetch("/.well-known/jwks.json");
+  expect(response.status).toBe(200);
+  return (await response.json()) as { keys: JWK[] };
+}
+
+async function expectVerifies(t: TestConvex<typeof schema>, token: string) {
+  const { payload } = await jwtVerify(
+    token,
+    createLocalJWKSet(await fetchJwks(t)),
+    { issuer: CONVEX_SITE_URL, audience: "convex" },
+  );
+  expect(payload.sub).toBeDefined();
+}
+
+function setupEnv() {
+  process.env.SITE_URL = "http://localhost:5173";
+  process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
+  process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
+  process.env.JWKS = JWKS;
+  process.env.AUTH_LOG_LEVEL = "ERROR";
+}
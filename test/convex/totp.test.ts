@@ -0,0 +1,141 @@
+import { convexTest } from "convex-test";
+import { decodeJwt } from "jose";
+import { expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import {
+  CONVEX_SITE_URL,
+  JWKS,
+  JWT_PRIVATE_KEY,
+  totpCode,
+} from "./test.helpers";
+
+test("totp enrollment and sign-in", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const asSarah = t.withIdentity({ subject: decodeJwt(tokens!.token).sub });
+  const signInWithCode = (code: string) =>
+    t.action(api.auth.signIn, {
+      provider: "password-totp",
+      params: { email: "sarah@gmail.com", password: "44448888", code },
+    });
+
+  // 1. Enrollment requires being signed in
+  await expect(t.action(api.mfa.startTOTPEnrollment)).rejects.toThrow(
+    "Cannot enroll in TOTP without being signed in",
+  );
+  const { secret, uri } = await asSarah.action(api.mfa.startTOTPEnrollment);
+  expect(uri).toMatch(/^otpauth:\/\/totp\/.*sarah%40gmail.com\?secret=/);
+  expect(uri).toContain(`secret=${secret}`);
+
+  // 2. The secret is stored encrypted
+  await t.run(async (ctx) => {
+    const account = (await ctx.db
+      .query("authAccounts")
+      .filter((q) => q.eq(q.field("provider"), "totp"))
+      .unique())!;
+    expect(account.secret).not.toContain(secret);
+    expect(account.counter).toBeUndefined();
+  });
+
+  // 3. Unconfirmed enrollment can't be used to sign in
+  await expect(signInWithCode(totpCode(secret))).rejects.toThrow("NotEnrolled");
+
+  // 4. Confirm with the first code
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "totp",
+      params: { code: "000000" },
+    }),
+  ).rejects.toThrow("InvalidCode");
+  const confirmCode = totpCode(secret);
+  await asSarah.action(api.auth.signIn, {
+    provider: "totp",
+    params: { code: confirmCode },
+  });
+
+  // 5. Each code can only be used once
+  await expect(signInWithCode(confirmCode)).rejects.toThrow("InvalidCode");
+  vi.advanceTimersByTime(30_000);
+  const signInCode = totpCode(secret);
+  const { tokens: newTokens } = await signInWithCode(signInCode);
+  expect(newTokens).not.toBeNull();
+  await expect(signInWithCode(signInCode)).rejects.toThrow("InvalidCode");
+
+  // 6. Codes from a different time are rejected
+  await expect(
+    signInWithCode(totpCode(secret, Date.now() + 5 * 60_000)),
+  ).rejects.toThrow("InvalidCode");
+  await expect(signInWithCode("123456")).rejects.toThrow();
+  vi.useRealTimers();
+});
+
+test("totp enrollment requires a recent sign-in", async () => {
+  vi.useFakeTimers();
+  setupEnv();
+  const t = convexTest(schema);
+  const { tokens } = await t.action(api.auth.signIn, {
+    provider: "password",
+    params: { email: "sarah@gmail.com", password: "44448888", flow: "signUp" },
+  });
+  const { sub } = decodeJwt(tokens!.token);
+  const asSarah = t.withIdentity({ subject: sub });
+  const reauthenticate = () =>
+    asSarah.action(api.auth.signIn, {
+      provider: "password",
+      params: {
+        email: "sarah@gmail.com",
+        password: "44448888",
+        flow: "signIn",
+      },
+      reauthenticate: true,
+    });
+
+  // 1. Starting the enrollment
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(asSarah.action(api.mfa.startTOTPEnrollment)).rejects.toThrow(
+    "ReauthenticationRequired",
+  );
+  await reauthenticate();
+  const { secret } = await asSarah.action(api.mfa.startTOTPEnrollment);
+
+  // 2. Confirming the enrollment
+  vi.advanceTimersByTime(6 * 60_000);
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "totp",
+      params: { code: totpCode(secret) },
+    }),
+  ).rejects.toThrow("ReauthenticationRequired");
+
+  // 3. Impersonators can't enroll
+  await reauthenticate();
+  const [userId, sessionId] = sub!.split("|");
+  await t.run(async (ctx) => {
+    await ctx.db.patch(sessionId as any, { impersonatorId: userId as any });
+  });
+  await expect(asSarah.action(api.mfa.startTOTPEnrollment)).rejects.toThrow(
+    "ReauthenticationRequired",
+  );
+  await expect(
+    asSarah.action(api.auth.signIn, {
+      provider: "totp",
+      params: { code: totpCode(secret) },
+    }),
+  ).rejects.toThrow("ReauthenticationRequired");
+  vi.useRealTimers();
+});
+
+function setupEnv() {
+  process.env.SITE_URL = "http://localhost:5173";
+  process.env.CONVEX_SITE_URL = CONVEX_SITE_URL;
+  process.env.JWT_PRIVATE_KEY = JWT_PRIVATE_KEY;
+  process.env.JWKS = JWKS;
+  process.env.AUTH_TOTP_KEY = "totpEncryptionKey";
+  process.env.AUTH_LOG_LEVEL = "ERROR";
+}